@@ -1,11 +1,45 @@
 
-import React, { useState, useRef, useEffect } from 'react';
-import { Axiom, PDFData, Language } from './types';
-import { extractAxioms } from './services/geminiService';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { Axiom, AxiomRelation, PDFData, Language, Message, ChatThread, CompanionManuscript, CompanionRef, ExtractionProgress, Annotation, PassageContext, Flashcard, ReviewLog } from './types';
+import {
+  analyzeManuscript,
+  createChatThread,
+  deleteChatThread,
+  extractAxioms,
+  getManuscriptState,
+  mapAxiomRelations,
+  restoreManuscriptState,
+  rewindChatThread,
+  setCompanionManuscripts
+} from './services/geminiService';
+import {
+  LibrarySummary,
+  StudyDeck,
+  createLibraryId,
+  deleteLibraryEntry,
+  listLibrary,
+  loadAnnotations,
+  loadLibraryEntry,
+  loadStudyDeck,
+  loadStudyDecks,
+  saveLibraryEntry,
+  updateLibraryEntry
+} from './services/libraryStore';
+import { AppError, InvalidBundleError, InvalidPdfError, ParseFailureError, StorageError, toAppError } from './services/errors';
+import { BUNDLE_EXTENSION, createSanctuaryBundle, importSanctuaryBundle, parseSanctuaryBundle } from './services/sanctuaryBundle';
+import { downloadFile, openHtmlPage, toFileStem } from './services/fileDownload';
+import { ReportFormat, StudyReportInput, buildHtmlReport, buildMarkdownReport } from './services/studyReport';
 import AxiomCard from './components/AxiomCard';
 import ChatInterface from './components/ChatInterface';
+import ThreadBar from './components/ThreadBar';
+import WorksBar from './components/WorksBar';
+import QueueIndicator from './components/QueueIndicator';
+import ErrorNotice from './components/ErrorNotice';
 import Sidebar from './components/Sidebar';
-import ManuscriptViewer from './components/ManuscriptViewer';
+import ManuscriptViewer, { PageRequest } from './components/ManuscriptViewer';
+import StudyMode from './components/StudyMode';
+import QuizMode from './components/QuizMode';
+import AxiomGraph from './components/AxiomGraph';
 import { translations } from './translations';
 
 // مصفوفة المقولات المختارة بعناية من المصادر المحددة
@@ -73,86 +107,166 @@ const quotes = {
   ]
 };
 
-// نصوص الحالة التقنية
-const statusMessages = {
-  en: [
-    "Analyzing manuscript structure...",
-    "Deep thinking in progress...",
-    "Extracting axiomatic wisdom...",
-    "Synthesizing neural connections...",
-    "Mapping intellectual framework...",
-    "Decoding author's logic...",
-    "Finalizing neural sync..."
-  ],
-  ar: [
-    "يتم تحليل بنية المخطوط...",
-    "تفكير معمق في الأفكار المركزية...",
-    "استخراج الحكمة الأكسيومية...",
-    "توليف الروابط العصبية...",
-    "رسم الإطار الفكري...",
-    "فك شفرة منطق المؤلف...",
-    "إتمام المزامنة العصبية..."
-  ]
+type LoadedCompanion = CompanionManuscript & { pdf: PDFData };
+
+// وزن كل مرحلة من شريط التقدم: قراءة الصفحات سريعة نسبياً، والتحليل بالنموذج هو الأطول
+const PROGRESS_SPANS: Record<ExtractionProgress['stage'], [number, number]> = {
+  parsing: [0, 0.25],
+  chunking: [0.25, 0.3],
+  analyzing: [0.3, 0.92],
+  merging: [0.92, 0.96],
+  relating: [0.96, 1]
+};
+
+const progressFraction = (event: ExtractionProgress | null): number => {
+  if (!event) return 0;
+  // مخطوط من قسم واحد لا يمر بمرحلة الدمج، فيمتد تحليله على نطاقها كي لا يتوقف الشريط قبل الربط
+  const [from, to] = event.stage === 'analyzing' && event.total === 1
+    ? [PROGRESS_SPANS.analyzing[0], PROGRESS_SPANS.merging[1]]
+    : PROGRESS_SPANS[event.stage];
+  const ratio = 'total' in event && event.total > 0 ? event.done / event.total : 0;
+  return from + (to - from) * ratio;
 };
 
+const readFileAsBase64 = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.substring(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
 const App: React.FC = () => {
   const [pdf, setPdf] = useState<PDFData | null>(null);
   const [axioms, setAxioms] = useState<Axiom[]>([]);
+  const [relations, setRelations] = useState<AxiomRelation[] | undefined>(undefined);
+  const [axiomView, setAxiomView] = useState<'cards' | 'graph'>('cards');
+  const [isMappingRelations, setIsMappingRelations] = useState(false);
   const [isSynthesizing, setIsSynthesizing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppError | null>(null);
+  // الملف الذي فشل توليفه، لإعادة المحاولة دون رفعه من جديد
+  const [failedUpload, setFailedUpload] = useState<PDFData | null>(null);
   const [lang, setLang] = useState<Language>('en');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [currentQuoteIndex, setCurrentQuoteIndex] = useState(0);
-  const [currentStatusIndex, setCurrentStatusIndex] = useState(0);
+  const [progress, setProgress] = useState<ExtractionProgress | null>(null);
 
-  const [flowStep, setFlowStep] = useState<'axioms' | 'chat'>('axioms');
+  const [flowStep, setFlowStep] = useState<'axioms' | 'chat' | 'quiz'>('axioms');
   const [showViewer, setShowViewer] = useState(false);
+  const [pageRequest, setPageRequest] = useState<PageRequest | null>(null);
+  const [library, setLibrary] = useState<LibrarySummary[]>([]);
+  const [manuscriptId, setManuscriptId] = useState<string | null>(null);
+  // المحراب المفتوح الآن، لتمييز نتائج الطلبات الطويلة التي بدأت في محراب آخر
+  const manuscriptIdRef = useRef<string | null>(null);
+  manuscriptIdRef.current = manuscriptId;
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  const threadsRef = useRef<ChatThread[]>([]);
+  const activeThreadIdRef = useRef<string | null>(null);
+  const [pendingPrompt, setPendingPrompt] = useState<{ threadId: string; message: Message } | null>(null);
+  const [companions, setCompanions] = useState<LoadedCompanion[]>([]);
+  const [viewerWork, setViewerWork] = useState(1);
+  const [isAddingWork, setIsAddingWork] = useState(false);
+  // تظليلات المخطوط المعروض حالياً في العارض (الأساسي أو أحد المرافقين)
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [pendingPassage, setPendingPassage] = useState<PassageContext | null>(null);
+  // جلسة المراجعة المفتوحة: مخطوط واحد أو طابور اليوم من المكتبة كلها
+  const [studyDecks, setStudyDecks] = useState<StudyDeck[] | null>(null);
   const carouselRef = useRef<HTMLDivElement>(null);
 
   const t = translations[lang];
+  const activeThread = threads.find(th => th.id === activeThreadId) || null;
+  const viewerCompanion = companions.find(c => c.work === viewerWork);
+  const viewerId = viewerCompanion?.id ?? manuscriptId;
+  const companionCandidates = library.filter(item => item.id !== manuscriptId && !companions.some(c => c.id === item.id));
+  // رقم العمل التالي يتجاوز كل الأرقام الحالية، فلا يُعاد ترقيم عمل مرفق ولا تتغير إحالاته
+  const nextCompanionWork = () => Math.max(1, ...companions.map(c => c.work)) + 1;
+
+  // المرجع يحمل أحدث قائمة للمباحث كي لا تضيع التحديثات المتتالية بين عمليات الرسم
+  const applyThreads = (nextThreads: ChatThread[], nextActiveId: string | null) => {
+    threadsRef.current = nextThreads;
+    activeThreadIdRef.current = nextActiveId;
+    setThreads(nextThreads);
+    setActiveThreadId(nextActiveId);
+  };
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
     if (isSynthesizing) {
       setCurrentQuoteIndex(Math.floor(Math.random() * quotes[lang].length));
-      setCurrentStatusIndex(0);
 
       interval = setInterval(() => {
         setCurrentQuoteIndex(Math.floor(Math.random() * quotes[lang].length));
-        setCurrentStatusIndex(prev => (prev + 1) % statusMessages[lang].length);
       }, 5000);
     }
     return () => clearInterval(interval);
   }, [isSynthesizing, lang]);
 
+  const refreshLibrary = useCallback(() => {
+    listLibrary().then(setLibrary).catch(err => console.error("Library load error:", err));
+  }, []);
+
+  useEffect(() => {
+    refreshLibrary();
+  }, [refreshLibrary]);
+
+  useEffect(() => {
+    setAnnotations([]);
+    if (!viewerId) return;
+    let cancelled = false;
+    loadAnnotations(viewerId)
+      .then(stored => { if (!cancelled) setAnnotations(stored); })
+      .catch(err => console.error("Annotations load error:", err));
+    return () => { cancelled = true; };
+  }, [viewerId]);
+
   useEffect(() => {
     if (axioms.length > 0 && carouselRef.current) {
       carouselRef.current.scrollTo({ left: 0, behavior: 'smooth' });
     }
   }, [axioms]);
 
-  const handleSynthesis = async (base64: string, currentLang: Language) => {
+  const handleSynthesis = async (base64: string, name: string, currentLang: Language) => {
     setIsSynthesizing(true);
+    setProgress(null);
     setError(null);
+    setFailedUpload(null);
     setAxioms([]);
+    setRelations(undefined);
+    setManuscriptId(null);
+    applyThreads([], null);
+    setCompanions([]);
+    setViewerWork(1);
+    setPendingPassage(null);
     setFlowStep('axioms');
 
     try {
-      const extracted = await extractAxioms(base64, currentLang);
+      const extracted = await extractAxioms(base64, currentLang, setProgress);
       if (extracted && extracted.length > 0) {
         setAxioms(extracted);
+        setRelations(getManuscriptState().relations);
+        const id = createLibraryId();
+        const now = Date.now();
+        const thread = createChatThread(createLibraryId(), translations[currentLang].threadTitle(1));
+        // المعرّف لا يُعتمد قبل وجود السجل، وإلا ضاعت التحديثات المبكرة (المحادثات والتظليلات والبطاقات) على سجل غير موجود
+        try {
+          await saveLibraryEntry({ id, name, createdAt: now, updatedAt: now, threads: [thread], activeThreadId: thread.id, ...getManuscriptState() }, { base64, name });
+          setManuscriptId(id);
+          refreshLibrary();
+        } catch (err) {
+          console.error("Library save error:", err);
+        }
+        applyThreads([thread], thread.id);
       } else {
-        throw new Error("EMPTY_RESULT");
+        throw new ParseFailureError("EMPTY_RESULT");
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error("Synthesis error:", err);
-      let errorMsg = currentLang === 'ar' ? "فشل التحليل العصبي للمخطوط." : "Synthesis failed.";
-      if (err instanceof Error) {
-        errorMsg += ` (${err.message})`;
-      } else {
-        errorMsg += ` (${JSON.stringify(err)})`;
-      }
-      setError(errorMsg);
+      setError(toAppError(err));
+      setFailedUpload({ base64, name });
       setPdf(null);
     } finally {
       setIsSynthesizing(false);
@@ -163,7 +277,7 @@ const App: React.FC = () => {
     const file = e.target.files?.[0];
     if (!file) return;
     if (file.type !== 'application/pdf') {
-      setError(lang === 'ar' ? "يرجى رفع ملف PDF فقط." : "Please upload a PDF file only.");
+      setError(new InvalidPdfError("NOT_A_PDF"));
       return;
     }
 
@@ -172,17 +286,284 @@ const App: React.FC = () => {
       const result = reader.result as string;
       const base64 = result.substring(result.indexOf(',') + 1);
       setPdf({ base64, name: file.name });
-      handleSynthesis(base64, lang);
+      handleSynthesis(base64, file.name, lang);
     };
     reader.readAsDataURL(file);
   };
 
+  const handleRetrySynthesis = () => {
+    if (!failedUpload) return;
+    setPdf(failedUpload);
+    handleSynthesis(failedUpload.base64, failedUpload.name, lang);
+  };
+
+  const handleCitePage = (page: number, work: number = 1) => {
+    setViewerWork(companions.some(c => c.work === work) ? work : 1);
+    setShowViewer(true);
+    setPageRequest({ page, nonce: Date.now() });
+  };
+
+  const handleAnnotationsChange = (next: Annotation[]) => {
+    setAnnotations(next);
+    if (!viewerId) return;
+    updateLibraryEntry(viewerId, { annotations: next })
+      .then(refreshLibrary)
+      .catch(err => console.error("Library update error:", err));
+  };
+
+  // المقطع المحدد في العارض ينتقل إلى الحوار سياقاً صريحاً للسؤال التالي
+  const handleAskAbout = (passage: PassageContext) => {
+    setPendingPassage(companions.length > 0 ? { ...passage, work: viewerWork } : passage);
+    setFlowStep('chat');
+    if (window.innerWidth <= 1024) setShowViewer(false);
+  };
+
+  const handleStudy = async (id?: string) => {
+    try {
+      const decks = id ? [await loadStudyDeck(id)].filter((deck): deck is StudyDeck => deck !== null) : await loadStudyDecks();
+      if (decks.length === 0) throw new StorageError("SANCTUARY_NOT_FOUND");
+      setStudyDecks(decks);
+    } catch (err) {
+      console.error("Study load error:", err);
+      setError(err instanceof AppError ? err : new StorageError("STUDY_LOAD_FAILED", { cause: err }));
+    }
+  };
+
+  const handleSaveStudy = (deckId: string, flashcards: Flashcard[], reviewLog: ReviewLog[]) => {
+    updateLibraryEntry(deckId, { flashcards, reviewLog })
+      .then(refreshLibrary)
+      .catch(err => console.error("Library update error:", err));
+  };
+
+  const handleMapRelations = async () => {
+    const mappedId = manuscriptId;
+    setIsMappingRelations(true);
+    try {
+      const mapped = await mapAxiomRelations(lang);
+      if (mappedId) {
+        updateLibraryEntry(mappedId, { relations: mapped })
+          .then(refreshLibrary)
+          .catch(err => console.error("Library update error:", err));
+      }
+      // فُتح محراب آخر أثناء الرسم: النتيجة حُفظت لمخطوطها ولا تُعرض فوق غيره
+      if (manuscriptIdRef.current === mappedId) setRelations(mapped);
+    } catch (err) {
+      console.error("Relation mapping error:", err);
+      if (manuscriptIdRef.current === mappedId) setError(toAppError(err));
+    } finally {
+      setIsMappingRelations(false);
+    }
+  };
+
+  const loadCompanions = async (refs: CompanionRef[]): Promise<LoadedCompanion[]> => {
+    const loaded = await Promise.all(refs.map(ref => loadLibraryEntry(ref.id).catch(() => null)));
+    // المخطوطات المرافقة المحذوفة من المكتبة تُسقط بصمت
+    return loaded.flatMap((item, i) => item ? [{ id: item.entry.id, work: refs[i].work, name: item.entry.name, state: item.entry, pdf: item.pdf }] : []);
+  };
+
+  const commitCompanions = async (nextCompanions: LoadedCompanion[]) => {
+    setCompanions(nextCompanions);
+    setViewerWork(1);
+    await setCompanionManuscripts(nextCompanions);
+    if (!manuscriptId) return;
+    updateLibraryEntry(manuscriptId, { companions: nextCompanions.map(({ id, work }) => ({ id, work })) })
+      .then(refreshLibrary)
+      .catch(err => console.error("Library update error:", err));
+  };
+
+  const handleAddCompanion = async (id: string) => {
+    setIsAddingWork(true);
+    try {
+      const [companion] = await loadCompanions([{ id, work: nextCompanionWork() }]);
+      if (!companion) throw new StorageError("SANCTUARY_NOT_FOUND");
+      await commitCompanions([...companions, companion]);
+    } catch (err) {
+      console.error("Companion load error:", err);
+      setError(err instanceof AppError ? err : new StorageError("COMPANION_LOAD_FAILED", { cause: err }));
+    } finally {
+      setIsAddingWork(false);
+    }
+  };
+
+  // المخطوط المرافق الجديد يُحلَّل ويُحفظ كمحراب مستقل ثم يُربط بالمحراب الحالي
+  const handleUploadCompanion = (file: File) => {
+    if (file.type !== 'application/pdf') {
+      setError(new InvalidPdfError("NOT_A_PDF"));
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = async () => {
+      const result = reader.result as string;
+      const companionPdf = { base64: result.substring(result.indexOf(',') + 1), name: file.name };
+      setIsAddingWork(true);
+      try {
+        const state = await analyzeManuscript(companionPdf.base64, lang);
+        const id = createLibraryId();
+        const now = Date.now();
+        const thread: ChatThread = { id: createLibraryId(), title: t.threadTitle(1), createdAt: now, messages: [] };
+        await saveLibraryEntry({ id, name: file.name, createdAt: now, updatedAt: now, threads: [thread], activeThreadId: thread.id, ...state }, companionPdf);
+        await commitCompanions([...companions, { id, work: nextCompanionWork(), name: file.name, state, pdf: companionPdf }]);
+      } catch (err) {
+        console.error("Companion synthesis error:", err);
+        setError(toAppError(err));
+      } finally {
+        setIsAddingWork(false);
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const handleRemoveCompanion = (id: string) => {
+    commitCompanions(companions.filter(c => c.id !== id));
+  };
+
+  const handleOpenSanctuary = async (id: string) => {
+    setError(null);
+    try {
+      const loaded = await loadLibraryEntry(id);
+      if (!loaded) throw new StorageError("SANCTUARY_NOT_FOUND");
+      const { entry, pdf: storedPdf } = loaded;
+      const storedThreads = entry.threads.length > 0
+        ? entry.threads
+        : [{ id: createLibraryId(), title: translations[lang].threadTitle(1), createdAt: Date.now(), messages: [] }];
+      const storedCompanions = await loadCompanions(entry.companions || []);
+      await restoreManuscriptState(entry, storedThreads, storedCompanions);
+      const activeId = storedThreads.some(th => th.id === entry.activeThreadId) ? entry.activeThreadId : storedThreads[0].id;
+      setManuscriptId(entry.id);
+      applyThreads(storedThreads, activeId);
+      setCompanions(storedCompanions);
+      setViewerWork(1);
+      setAxioms(entry.axioms);
+      setRelations(entry.relations);
+      setPdf(storedPdf);
+      setPageRequest(null);
+      setPendingPassage(null);
+      setShowViewer(false);
+      setFlowStep(storedThreads.some(th => th.messages.length > 0) ? 'chat' : 'axioms');
+    } catch (err) {
+      console.error("Library open error:", err);
+      setError(err instanceof AppError ? err : new StorageError("SANCTUARY_OPEN_FAILED", { cause: err }));
+    }
+  };
+
+  const handleExportSanctuary = async (id: string, includeFile: boolean) => {
+    try {
+      const bundle = await createSanctuaryBundle(id, { includeFiles: includeFile });
+      downloadFile(`${toFileStem(bundle.works[0].name)}${BUNDLE_EXTENSION}`, JSON.stringify(bundle), 'application/json');
+    } catch (err) {
+      console.error("Sanctuary export error:", err);
+      setError(err instanceof AppError ? err : new StorageError("SANCTUARY_EXPORT_FAILED", { cause: err }));
+    }
+  };
+
+  // الحزمة تُستعاد كما صُدِّرت دون أي استدعاء للنموذج، ثم تُفتح مباشرة
+  const handleImportSanctuary = async (files: File[]) => {
+    setError(null);
+    try {
+      const bundleFile = files.find(file => file.type !== 'application/pdf');
+      if (!bundleFile) throw new InvalidBundleError("NO_BUNDLE_SELECTED");
+      const bundle = parseSanctuaryBundle(await bundleFile.text());
+      const pdfs = await Promise.all(files.filter(file => file !== bundleFile).map(async file => ({ name: file.name, base64: await readFileAsBase64(file) })));
+      const id = await importSanctuaryBundle(bundle, pdfs);
+      refreshLibrary();
+      await handleOpenSanctuary(id);
+    } catch (err) {
+      console.error("Sanctuary import error:", err);
+      setError(toAppError(err));
+    }
+  };
+
+  const handleDeleteSanctuary = async (id: string) => {
+    await deleteLibraryEntry(id).catch(err => console.error("Library delete error:", err));
+    if (id === manuscriptId) handleNewChat();
+    else if (companions.some(c => c.id === id)) await commitCompanions(companions.filter(c => c.id !== id));
+    refreshLibrary();
+  };
+
+  const persistThreads = useCallback((nextThreads: ChatThread[], nextActiveId: string | null) => {
+    if (!manuscriptId) return;
+    updateLibraryEntry(manuscriptId, { threads: nextThreads, activeThreadId: nextActiveId })
+      .then(refreshLibrary)
+      .catch(err => console.error("Library update error:", err));
+  }, [manuscriptId, refreshLibrary]);
+
+  const commitThreads = (nextThreads: ChatThread[], nextActiveId: string | null) => {
+    applyThreads(nextThreads, nextActiveId);
+    persistThreads(nextThreads, nextActiveId);
+  };
+
+  const handleCreateThread = () => {
+    const thread = createChatThread(createLibraryId(), t.threadTitle(threadsRef.current.length + 1));
+    commitThreads([...threadsRef.current, thread], thread.id);
+  };
+
+  const handleRenameThread = (id: string, title: string) => {
+    commitThreads(threadsRef.current.map(th => th.id === id ? { ...th, title } : th), activeThreadId);
+  };
+
+  const handleDeleteThread = (id: string) => {
+    deleteChatThread(id);
+    const remaining = threadsRef.current.filter(th => th.id !== id);
+    const nextActive = id === activeThreadId ? remaining[0]?.id ?? null : activeThreadId;
+    commitThreads(remaining, nextActive);
+  };
+
+  const handleSelectThread = (id: string) => {
+    setPendingPrompt(null);
+    commitThreads(threadsRef.current, id);
+  };
+
+  // التفريع: مبحث جديد يحمل الحوار حتى الرسالة المعدَّلة ثم يرسلها تلقائياً
+  const handleBranch = (messages: Message[], prompt: Message) => {
+    const source = threadsRef.current.find(th => th.id === activeThreadId);
+    const sourceIndex = source ? threadsRef.current.indexOf(source) : threadsRef.current.length;
+    const sourceTitle = source?.title || t.threadTitle(sourceIndex + 1);
+    const thread = { ...createChatThread(createLibraryId(), t.branchTitle(sourceTitle)), messages };
+    rewindChatThread(thread.id, messages);
+    setPendingPrompt({ threadId: thread.id, message: prompt });
+    commitThreads([...threadsRef.current, thread], thread.id);
+  };
+
+  const handleMessagesChange = useCallback((threadId: string, messages: Message[]) => {
+    setPendingPrompt(prev => prev?.threadId === threadId ? null : prev);
+    // قد يصل رد محادثة غادرها القارئ؛ يُكتب في محادثته دون أن يغيّر المحادثة النشطة.
+    // أما محادثات محراب أُغلق فذاكرتها في الخدمة أُعيد بناؤها من المخزن، فلا يُكتب شيء
+    if (!threadsRef.current.some(th => th.id === threadId)) return;
+    const nextThreads = threadsRef.current.map(th => th.id === threadId ? { ...th, messages } : th);
+    applyThreads(nextThreads, activeThreadIdRef.current);
+    persistThreads(nextThreads, activeThreadIdRef.current);
+  }, [persistThreads]);
+
+  const handleExportThread = (format: ReportFormat) => {
+    if (!pdf || !activeThread) return;
+    const input: StudyReportInput = {
+      name: pdf.name,
+      metadata: getManuscriptState().metadata,
+      axioms,
+      thread: activeThread,
+      threadTitle: activeThread.title || t.threadTitle(threads.indexOf(activeThread) + 1),
+      lang
+    };
+    const stem = `${toFileStem(pdf.name)} - ${toFileStem(input.threadTitle)}`;
+    if (format === 'markdown') downloadFile(`${stem}.md`, buildMarkdownReport(input), 'text/markdown');
+    else if (format === 'html') downloadFile(`${stem}.html`, buildHtmlReport(input), 'text/html');
+    else openHtmlPage(buildHtmlReport(input, { print: true }));
+  };
+
   const handleNewChat = () => {
     setPdf(null);
+    setManuscriptId(null);
+    applyThreads([], null);
+    setCompanions([]);
+    setViewerWork(1);
+    setPageRequest(null);
+    setPendingPassage(null);
     setAxioms([]);
+    setRelations(undefined);
     setFlowStep('axioms');
     setShowViewer(false);
     setError(null);
+    setFailedUpload(null);
   };
 
   return (
@@ -211,12 +592,21 @@ const App: React.FC = () => {
         <div className="fixed inset-0 bg-black z-[100] flex flex-col items-center justify-center p-6 text-center animate-in fade-in duration-1000">
           <div className="spinner-arc mb-16 w-24 h-24 border-t-orange-600"></div>
 
-          {/* نص الحالة التقنية */}
+          {/* المرحلة الفعلية للاستخراج وشريط التقدم */}
           <div className="mb-4 h-6">
             <p className="text-orange-500/60 text-[10px] font-black tracking-[0.4em] uppercase animate-pulse">
-              {statusMessages[lang][currentStatusIndex]}
+              {t.progressStage(progress)}
             </p>
           </div>
+          <div className="w-64 md:w-96 h-1 mb-3 rounded-full bg-white/5 overflow-hidden">
+            <div
+              className="h-full bg-[#a34a28] shadow-[0_0_12px_rgba(163,74,40,0.6)] transition-all duration-500 ease-out"
+              style={{ width: `${Math.round(progressFraction(progress) * 100)}%` }}
+            />
+          </div>
+          <div className="h-4 mb-8">
+            <QueueIndicator lang={lang} active={isSynthesizing} />
+          </div>
 
           <h2 className="text-white text-xl font-black tracking-[0.6em] mb-12 uppercase opacity-30">{t.synthesis}</h2>
 
@@ -234,8 +624,19 @@ const App: React.FC = () => {
         lang={lang}
         setLang={setLang}
         onNewChat={handleNewChat}
+        library={library}
+        activeId={manuscriptId}
+        onOpenSanctuary={handleOpenSanctuary}
+        onDeleteSanctuary={handleDeleteSanctuary}
+        onExportSanctuary={handleExportSanctuary}
+        onImport={handleImportSanctuary}
+        onStudyDue={() => handleStudy()}
       />
 
+      {studyDecks && (
+        <StudyMode lang={lang} decks={studyDecks} onSave={handleSaveStudy} onClose={() => setStudyDecks(null)} />
+      )}
+
       <header className="h-14 md:h-16 px-4 md:px-8 flex items-center justify-between border-b border-white/5 bg-black/40 backdrop-blur-3xl z-[60] shrink-0">
         <div className="flex items-center gap-4">
           <button onClick={() => setIsSidebarOpen(true)} className="p-2 hover:bg-white/5 rounded-xl transition-colors">
@@ -256,6 +657,22 @@ const App: React.FC = () => {
       </header>
 
       <main className="flex-1 overflow-hidden relative z-10 flex flex-col">
+        {pdf && manuscriptId && (
+          <WorksBar
+            works={[{ id: manuscriptId, work: 1, name: pdf.name }, ...companions]}
+            activeWork={viewerWork}
+            candidates={companionCandidates}
+            lang={lang}
+            isBusy={isAddingWork}
+            onSelect={(work) => { setViewerWork(work); setPageRequest(null); setShowViewer(true); }}
+            onAddFromLibrary={handleAddCompanion}
+            onUpload={handleUploadCompanion}
+            onRemove={handleRemoveCompanion}
+          />
+        )}
+        {pdf && error && manuscriptId && (
+          <ErrorNotice code={error.code} action={error.action} lang={lang} className="m-3 shrink-0" />
+        )}
         {!pdf ? (
           <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-6 text-center touch-auto" dir="ltr">
             <h2 className="text-6xl md:text-9xl font-black mb-4 select-none text-white tracking-tighter uppercase font-sans">
@@ -276,11 +693,13 @@ const App: React.FC = () => {
               </div>
             </label>
             {error && (
-              <div className="mt-8 max-w-md mx-auto">
-                <p className="text-red-500 text-[10px] font-black uppercase tracking-[0.3em] bg-red-500/10 px-6 py-2 rounded-full border border-red-500/20 shadow-lg">
-                  {error}
-                </p>
-              </div>
+              <ErrorNotice
+                code={error.code}
+                action={error.action}
+                lang={lang}
+                onRetry={failedUpload ? handleRetrySynthesis : undefined}
+                className="mt-8 max-w-md mx-auto"
+              />
             )}
           </div>
         ) : (
@@ -288,29 +707,103 @@ const App: React.FC = () => {
             <div className={`flex-1 flex flex-col transition-all duration-700 ease-in-out overflow-hidden ${showViewer ? 'lg:w-1/2 opacity-100' : 'lg:w-full'}`}>
               {flowStep === 'axioms' && (
                 <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-4 touch-auto">
-                  <h3 className="text-2xl md:text-5xl font-black mb-8 uppercase text-center text-white/90 tracking-widest">{t.axiomsTitle}</h3>
-                  <div ref={carouselRef} className="w-full flex gap-6 px-4 md:px-[5%] overflow-x-auto snap-x scrollbar-none pb-10 touch-pan-x">
-                    {axioms.length > 0 ? axioms.map((ax, i) => (
-                      <div key={i} className="min-w-[280px] md:min-w-[400px] snap-center">
-                        <AxiomCard axiom={ax} index={i} />
-                      </div>
-                    )) : (
-                      <div className="w-full flex justify-center py-20 opacity-20">
-                        <div className="w-10 h-10 border-2 border-white/10 border-t-white/40 rounded-full animate-spin"></div>
-                      </div>
+                  <h3 className="text-2xl md:text-5xl font-black mb-6 uppercase text-center text-white/90 tracking-widest">{t.axiomsTitle}</h3>
+                  {axioms.length > 1 && (
+                    <div className="grid grid-cols-2 gap-1 bg-white/5 p-1 rounded-xl mb-6">
+                      {(['cards', 'graph'] as const).map(view => (
+                        <button
+                          key={view}
+                          onClick={() => setAxiomView(view)}
+                          className={`px-5 py-1.5 text-[9px] font-black tracking-widest uppercase rounded-lg transition-all ${axiomView === view ? 'bg-[#a34a28] text-white' : 'text-white/30'}`}
+                        >
+                          {view === 'cards' ? t.axiomCards : t.axiomGraph}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {axiomView === 'graph' && axioms.length > 1 ? (
+                    <div className="w-full pb-6">
+                      <AxiomGraph
+                        axioms={axioms}
+                        relations={relations}
+                        lang={lang}
+                        onOpenPage={(page) => handleCitePage(page)}
+                        onMapRelations={handleMapRelations}
+                        isMapping={isMappingRelations}
+                      />
+                    </div>
+                  ) : (
+                    <div ref={carouselRef} className="w-full flex gap-6 px-4 md:px-[5%] overflow-x-auto snap-x scrollbar-none pb-10 touch-pan-x">
+                      {axioms.length > 0 ? axioms.map((ax, i) => (
+                        <div key={i} className="min-w-[280px] md:min-w-[400px] snap-center">
+                          <AxiomCard axiom={ax} index={i} onOpenPage={(page) => handleCitePage(page)} />
+                        </div>
+                      )) : (
+                        <div className="w-full flex justify-center py-20 opacity-20">
+                          <div className="w-10 h-10 border-2 border-white/10 border-t-white/40 rounded-full animate-spin"></div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                  <div className="flex flex-wrap items-center justify-center gap-3 mt-4">
+                    <button
+                      onClick={() => { setFlowStep('chat'); if (window.innerWidth > 1024) setShowViewer(true); }}
+                      className="px-12 py-5 bg-[#a34a28] rounded-full font-black text-xs tracking-[0.4em] uppercase hover:bg-orange-800 transition-all shadow-[0_0_30px_rgba(163,74,40,0.3)] active:scale-95"
+                    >
+                      {t.deepChatBtn}
+                    </button>
+                    {manuscriptId && axioms.length > 0 && (
+                      <button
+                        onClick={() => handleStudy(manuscriptId)}
+                        className="px-8 py-5 bg-white/5 border border-white/10 rounded-full font-black text-xs tracking-[0.3em] uppercase text-white/60 hover:text-white hover:bg-white/10 transition-all active:scale-95"
+                      >
+                        {t.studyFlashcards}
+                      </button>
+                    )}
+                    {manuscriptId && axioms.length > 0 && (
+                      <button
+                        onClick={() => setFlowStep('quiz')}
+                        className="px-8 py-5 bg-white/5 border border-white/10 rounded-full font-black text-xs tracking-[0.3em] uppercase text-white/60 hover:text-white hover:bg-white/10 transition-all active:scale-95"
+                      >
+                        {t.takeQuiz}
+                      </button>
                     )}
                   </div>
-                  <button
-                    onClick={() => { setFlowStep('chat'); if (window.innerWidth > 1024) setShowViewer(true); }}
-                    className="px-12 py-5 bg-[#a34a28] rounded-full font-black text-xs tracking-[0.4em] uppercase hover:bg-orange-800 transition-all shadow-[0_0_30px_rgba(163,74,40,0.3)] mt-4 active:scale-95"
-                  >
-                    {t.deepChatBtn}
-                  </button>
                 </div>
               )}
+              {flowStep === 'quiz' && (
+                <QuizMode key={manuscriptId || 'draft'} pdf={pdf} lang={lang} onOpenPage={(page) => handleCitePage(page)} onBack={() => setFlowStep('axioms')} />
+              )}
               {flowStep === 'chat' && (
-                <div className="flex-1 bg-[#080808] overflow-hidden">
-                  <ChatInterface pdf={pdf} lang={lang} />
+                <div className="flex-1 bg-[#080808] overflow-hidden flex flex-col">
+                  <ThreadBar
+                    threads={threads}
+                    activeThreadId={activeThreadId}
+                    lang={lang}
+                    onSelect={handleSelectThread}
+                    onCreate={handleCreateThread}
+                    onRename={handleRenameThread}
+                    onDelete={handleDeleteThread}
+                    onExport={handleExportThread}
+                  />
+                  {activeThread && (
+                    <div className="flex-1 overflow-hidden">
+                      <ChatInterface
+                        key={`${manuscriptId || 'draft'}:${activeThread.id}`}
+                        pdf={pdf}
+                        lang={lang}
+                        threadId={activeThread.id}
+                        onCitePage={handleCitePage}
+                        initialMessages={activeThread.messages}
+                        onMessagesChange={(messages) => handleMessagesChange(activeThread.id, messages)}
+                        onBranch={handleBranch}
+                        autoSubmit={pendingPrompt?.threadId === activeThread.id ? pendingPrompt.message : undefined}
+                        canCompare={companions.length > 0}
+                        passage={pendingPassage}
+                        onClearPassage={() => setPendingPassage(null)}
+                      />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -323,7 +816,15 @@ const App: React.FC = () => {
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth="2.5" strokeLinecap="round" /></svg>
                   </button>
                 </div>
-                <ManuscriptViewer pdf={pdf} lang={lang} />
+                <ManuscriptViewer
+                  key={viewerWork}
+                  pdf={viewerCompanion?.pdf ?? pdf}
+                  lang={lang}
+                  pageRequest={pageRequest}
+                  annotations={annotations}
+                  onAnnotationsChange={handleAnnotationsChange}
+                  onAskAbout={handleAskAbout}
+                />
               </div>
             )}
           </div>
@@ -5,9 +5,10 @@ import { Axiom } from '../types';
 interface AxiomCardProps {
   axiom: Axiom;
   index: number;
+  onOpenPage?: (page: number) => void;
 }
 
-const AxiomCard: React.FC<AxiomCardProps> = ({ axiom, index }) => {
+const AxiomCard: React.FC<AxiomCardProps> = ({ axiom, index, onOpenPage }) => {
   const [isFlipped, setIsFlipped] = useState(false);
 
   return (
@@ -33,6 +34,26 @@ const AxiomCard: React.FC<AxiomCardProps> = ({ axiom, index }) => {
             <p className="text-white font-serif text-sm md:text-lg leading-relaxed italic pr-2">
               {axiom.definition}
             </p>
+            {axiom.evidence && axiom.evidence.length > 0 && (
+              <div className="mt-4 space-y-2">
+                <h4 className="text-[8px] font-black tracking-[0.4em] text-indigo-400 uppercase border-b border-white/5 pb-2">Evidence</h4>
+                {axiom.evidence.map((item, i) => (
+                  <div key={i} className="flex items-start gap-2">
+                    <p className="flex-1 text-[11px] text-white/60 leading-relaxed">“{item.quote}”</p>
+                    {onOpenPage && (
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onOpenPage(item.page); }}
+                        title="Open in viewer"
+                        className="shrink-0 px-2 py-0.5 rounded bg-indigo-500/10 border border-indigo-500/30 text-[9px] font-black text-indigo-300 hover:bg-indigo-500/25 transition-colors"
+                        dir="ltr"
+                      >
+                        p. {item.page}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
           <div className="pt-4 mt-2 border-t border-white/5">
             <p className="text-[7px] uppercase tracking-[0.2em] text-white/30 font-black mb-1">Significance</p>
@@ -0,0 +1,268 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Axiom, AxiomRelation, AxiomRelationType, Language } from '../types';
+import { translations } from '../translations';
+import { RELATION_TYPES } from '../services/axiomRelations';
+import AxiomCard from './AxiomCard';
+
+interface AxiomGraphProps {
+  axioms: Axiom[];
+  // غير معرّفة حين لم تُرسم العلاقات بعد
+  relations?: AxiomRelation[];
+  lang: Language;
+  onOpenPage: (page: number) => void;
+  // المحاريب القديمة بلا علاقات: رسمها عند الطلب
+  onMapRelations: () => void;
+  isMapping: boolean;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+const NODE_RADIUS = 24;
+const MARGIN = 60;
+const SPRING_LENGTH = 170;
+const LAYOUT_ITERATIONS = 300;
+const PARALLEL_SPACING = 36;
+const LABEL_CHARS = 24;
+
+const RELATION_COLORS: Record<AxiomRelationType, string> = {
+  depends_on: '#818cf8',
+  contradicts: '#f87171',
+  exemplifies: '#34d399',
+  leads_to: '#fb923c'
+};
+
+/**
+ * Deterministic force layout: nodes start on a circle, repel each other, and
+ * linked nodes pull together, with movement cooling off over the iterations.
+ * The same axioms and relations always give the same picture.
+ */
+const layoutGraph = (count: number, relations: AxiomRelation[]): Point[] => {
+  const radius = Math.min(WIDTH, HEIGHT) / 2 - MARGIN;
+  const points = Array.from({ length: count }, (_, i) => ({
+    x: WIDTH / 2 + radius * Math.cos((2 * Math.PI * i) / count - Math.PI / 2),
+    y: HEIGHT / 2 + radius * Math.sin((2 * Math.PI * i) / count - Math.PI / 2)
+  }));
+  for (let iteration = 0; iteration < LAYOUT_ITERATIONS; iteration++) {
+    const forces = points.map(() => ({ x: 0, y: 0 }));
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const dx = points[j].x - points[i].x;
+        const dy = points[j].y - points[i].y;
+        const distance = Math.max(1, Math.hypot(dx, dy));
+        const push = 14000 / (distance * distance);
+        forces[i].x -= (dx / distance) * push;
+        forces[i].y -= (dy / distance) * push;
+        forces[j].x += (dx / distance) * push;
+        forces[j].y += (dy / distance) * push;
+      }
+    }
+    for (const { from, to } of relations) {
+      const dx = points[to].x - points[from].x;
+      const dy = points[to].y - points[from].y;
+      const distance = Math.max(1, Math.hypot(dx, dy));
+      const pull = (distance - SPRING_LENGTH) * 0.02;
+      forces[from].x += (dx / distance) * pull;
+      forces[from].y += (dy / distance) * pull;
+      forces[to].x -= (dx / distance) * pull;
+      forces[to].y -= (dy / distance) * pull;
+    }
+    const cooling = 1 - iteration / LAYOUT_ITERATIONS;
+    points.forEach((point, i) => {
+      const fx = forces[i].x + (WIDTH / 2 - point.x) * 0.01;
+      const fy = forces[i].y + (HEIGHT / 2 - point.y) * 0.01;
+      const step = Math.min(20, Math.hypot(fx, fy)) * cooling;
+      const length = Math.max(1e-6, Math.hypot(fx, fy));
+      point.x = Math.min(WIDTH - MARGIN, Math.max(MARGIN, point.x + (fx / length) * step));
+      point.y = Math.min(HEIGHT - MARGIN, Math.max(MARGIN, point.y + (fy / length) * step));
+    });
+  }
+  return points;
+};
+
+// العلاقات المتعددة بين الزوج نفسه تُرسم أقواساً متباعدة بدل خطوط متراكبة
+const edgePath = (from: Point, to: Point, offset: number): string => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const length = Math.max(1, Math.hypot(dx, dy));
+  const control = { x: (from.x + to.x) / 2 - (dy / length) * offset, y: (from.y + to.y) / 2 + (dx / length) * offset };
+  const trim = (point: Point, gap: number) => {
+    const cx = control.x - point.x;
+    const cy = control.y - point.y;
+    const distance = Math.max(1, Math.hypot(cx, cy));
+    return { x: point.x + (cx / distance) * gap, y: point.y + (cy / distance) * gap };
+  };
+  const start = trim(from, NODE_RADIUS);
+  const end = trim(to, NODE_RADIUS + 6);
+  return `M ${start.x} ${start.y} Q ${control.x} ${control.y} ${end.x} ${end.y}`;
+};
+
+const truncate = (text: string) => text.length > LABEL_CHARS ? `${text.slice(0, LABEL_CHARS - 1)}…` : text;
+
+const AxiomGraph: React.FC<AxiomGraphProps> = ({ axioms, relations: allRelations, lang, onOpenPage, onMapRelations, isMapping }) => {
+  const t = translations[lang];
+  const relations = useMemo(() => (allRelations || []).filter(r => r.from < axioms.length && r.to < axioms.length), [allRelations, axioms.length]);
+  const [activeTypes, setActiveTypes] = useState<Set<AxiomRelationType>>(new Set(RELATION_TYPES));
+  const [hoveredNode, setHoveredNode] = useState<number | null>(null);
+  const [openNode, setOpenNode] = useState<number | null>(null);
+  const [selectedEdge, setSelectedEdge] = useState<number | null>(null);
+
+  // تبديل المحراب أو إعادة رسم العلاقات يغيّر معنى الفهارس، فتُغلق البطاقة والعلاقة المحددة
+  useEffect(() => {
+    setOpenNode(null);
+    setSelectedEdge(null);
+    setHoveredNode(null);
+  }, [axioms, relations]);
+
+  const points = useMemo(() => layoutGraph(axioms.length, relations), [axioms.length, relations]);
+
+  const edges = useMemo(() => {
+    const groups = new Map<string, number[]>();
+    relations.forEach((relation, i) => {
+      const key = [relation.from, relation.to].sort((a, b) => a - b).join('-');
+      groups.set(key, [...(groups.get(key) || []), i]);
+    });
+    return relations.map((relation, i) => {
+      const group = groups.get([relation.from, relation.to].sort((a, b) => a - b).join('-'))!;
+      const slot = group.indexOf(i) - (group.length - 1) / 2;
+      // الاتجاه المعاكس يقلب العمودي، فتُصحح الإشارة ليبقى لكل قوس مكانه
+      const sign = relation.from < relation.to ? 1 : -1;
+      return { relation, index: i, d: edgePath(points[relation.from], points[relation.to], slot * PARALLEL_SPACING * sign) };
+    });
+  }, [relations, points]);
+
+  const toggleType = (type: AxiomRelationType) => setActiveTypes(prev => {
+    const next = new Set(prev);
+    if (next.has(type)) next.delete(type);
+    else next.add(type);
+    return next;
+  });
+
+  const selected = selectedEdge !== null ? relations[selectedEdge] ?? null : null;
+  const openAxiom = openNode !== null ? axioms[openNode] : undefined;
+  const visibleEdges = edges.filter(edge => activeTypes.has(edge.relation.type));
+  const isLinked = (edge: typeof edges[number]) => hoveredNode === null || edge.relation.from === hoveredNode || edge.relation.to === hoveredNode;
+
+  if (relations.length === 0) {
+    return (
+      <div className="w-full max-w-xl mx-auto flex flex-col items-center gap-4 py-16 text-center">
+        <p className="text-[11px] text-white/40">{allRelations ? t.noRelationsFound : t.noRelations}</p>
+        <button
+          onClick={onMapRelations}
+          disabled={isMapping}
+          className="px-8 py-3 rounded-full bg-white/5 border border-white/10 text-[10px] font-black tracking-[0.3em] uppercase text-white/60 hover:text-white hover:bg-white/10 transition-all disabled:opacity-40"
+        >
+          {isMapping ? t.mappingRelations : t.mapRelations}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-4xl mx-auto px-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-center gap-2">
+        {RELATION_TYPES.map(type => (
+          <button
+            key={type}
+            onClick={() => toggleType(type)}
+            className={`flex items-center gap-2 px-3 py-1 rounded-full border text-[9px] font-black tracking-widest uppercase transition-all ${activeTypes.has(type) ? 'border-white/20 text-white/70' : 'border-white/5 text-white/20'}`}
+          >
+            <span className="w-3 h-0.5 rounded" style={{ backgroundColor: RELATION_COLORS[type], opacity: activeTypes.has(type) ? 1 : 0.3 }} />
+            {t.relationTypes[type]}
+          </button>
+        ))}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto rounded-[2rem] bg-white/[0.02] border border-white/5 select-none">
+        <defs>
+          {RELATION_TYPES.map(type => (
+            <marker key={type} id={`relation-arrow-${type}`} viewBox="0 0 10 10" refX="8" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill={RELATION_COLORS[type]} />
+            </marker>
+          ))}
+        </defs>
+
+        {visibleEdges.map(edge => (
+          <g key={edge.index} className="cursor-pointer" opacity={isLinked(edge) ? 1 : 0.12} onClick={() => setSelectedEdge(edge.index)}>
+            <path
+              d={edge.d}
+              fill="none"
+              stroke={RELATION_COLORS[edge.relation.type]}
+              strokeWidth={selectedEdge === edge.index ? 3.5 : 1.8}
+              strokeDasharray={edge.relation.type === 'contradicts' ? '6 5' : undefined}
+              markerEnd={`url(#relation-arrow-${edge.relation.type})`}
+            />
+            {/* مساحة نقر أعرض من الخط نفسه */}
+            <path d={edge.d} fill="none" stroke="transparent" strokeWidth={14} />
+          </g>
+        ))}
+
+        {points.map((point, i) => (
+          <g
+            key={i}
+            className="cursor-pointer"
+            onClick={() => setOpenNode(i)}
+            onMouseEnter={() => setHoveredNode(i)}
+            onMouseLeave={() => setHoveredNode(null)}
+          >
+            <circle
+              cx={point.x}
+              cy={point.y}
+              r={NODE_RADIUS}
+              fill={hoveredNode === i ? '#a34a28' : '#0b0b0b'}
+              stroke={hoveredNode === i ? '#fb923c' : 'rgba(255,255,255,0.25)'}
+              strokeWidth={2}
+            />
+            <text x={point.x} y={point.y + 4} textAnchor="middle" className="fill-white text-[12px] font-black">{i + 1}</text>
+            <text x={point.x} y={point.y + NODE_RADIUS + 16} textAnchor="middle" direction={lang === 'ar' ? 'rtl' : 'ltr'} className="fill-white/60 text-[11px] font-bold">
+              {truncate(axioms[i].term)}
+            </text>
+          </g>
+        ))}
+      </svg>
+
+      <p className="text-center text-[9px] text-white/25">{t.graphHint}</p>
+
+      {selected && (
+        <div className="p-5 rounded-2xl bg-[#050505] border border-white/10 space-y-3 animate-in fade-in duration-300">
+          <div className="flex items-start justify-between gap-3">
+            <p className="text-[12px] text-white/80 leading-relaxed" dir="auto">
+              <strong>{axioms[selected.from].term}</strong>
+              <span className="mx-2 text-[9px] font-black tracking-widest uppercase" style={{ color: RELATION_COLORS[selected.type] }}>{t.relationTypes[selected.type]}</span>
+              <strong>{axioms[selected.to].term}</strong>
+            </p>
+            <button onClick={() => setSelectedEdge(null)} className="text-white/20 hover:text-white transition-colors">✕</button>
+          </div>
+          {selected.explanation && <p className="text-[11px] text-white/50 leading-relaxed" dir="auto">{selected.explanation}</p>}
+          <h4 className="text-[8px] font-black tracking-[0.4em] text-indigo-400 uppercase border-b border-white/5 pb-2">{t.relationEvidence}</h4>
+          {selected.evidence.map((item, i) => (
+            <div key={i} className="flex items-start gap-2">
+              <p className="flex-1 text-[11px] text-white/60 italic leading-relaxed" dir="auto">“{item.quote}”</p>
+              <button
+                onClick={() => onOpenPage(item.page)}
+                className="shrink-0 px-2 py-0.5 rounded bg-indigo-500/10 border border-indigo-500/30 text-[9px] font-black text-indigo-300 hover:bg-indigo-500/25 transition-colors"
+                dir="ltr"
+              >
+                p. {item.page}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {openNode !== null && openAxiom && (
+        <div className="fixed inset-0 z-[80] bg-black/80 backdrop-blur-md flex items-center justify-center p-6" onClick={() => setOpenNode(null)}>
+          <div className="w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+            <AxiomCard axiom={openAxiom} index={openNode} onOpenPage={(page) => { setOpenNode(null); onOpenPage(page); }} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AxiomGraph;
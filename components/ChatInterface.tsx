@@ -4,25 +4,64 @@ import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Message, PDFData, Language } from '../types';
-import { chatWithManuscriptStream, getManuscriptSnippets } from '../services/geminiService';
+import { Message, PDFData, Language, ChatMode, PassageContext } from '../types';
+import { chatWithManuscriptStream, editUserMessage, getManuscriptSnippets, rewindChatThread } from '../services/geminiService';
 import { translations } from '../translations';
+import QueueIndicator from './QueueIndicator';
+import ErrorNotice from './ErrorNotice';
+import { createAppError, toAppError } from '../services/errors';
 
 interface ChatInterfaceProps {
   pdf: PDFData;
   lang: Language;
+  threadId: string;
+  onCitePage?: (page: number, work?: number) => void;
+  initialMessages?: Message[];
+  onMessagesChange?: (messages: Message[]) => void;
+  // السؤال المعدَّل يحمل نمط السؤال الأصلي ومقطعه
+  onBranch?: (messages: Message[], prompt: Message) => void;
+  autoSubmit?: Message;
+  canCompare?: boolean;
+  // مقطع محدد في العارض ينتظر سؤال القارئ عنه
+  passage?: PassageContext | null;
+  onClearPassage?: () => void;
 }
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+const PAGE_LINK_PREFIX = '#page-';
+const CITATION_PATTERN = /\[((?:W(\d+),\s*)?pp?\.\s*(\d+)(?:\s*[-–]\s*\d+)?)\](?!\()/g;
+const PAGE_LINK_PATTERN = /^#page-(\d+)(?:-w(\d+))?$/;
+
+const formatPassageLabel = (passage: PassageContext) => `${passage.work ? `W${passage.work}, ` : ''}p. ${passage.page}`;
+
+// تحويل الإحالات مثل [p. 42] أو [W2, p. 42] إلى روابط تفتح الصفحة في العارض
+const linkifyCitations = (content: string) =>
+  content.replace(CITATION_PATTERN, (_, label: string, work: string | undefined, page: string) =>
+    `[${label}](${PAGE_LINK_PREFIX}${page}${work ? `-w${work}` : ''})`);
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang, threadId, onCitePage, initialMessages = [], onMessagesChange, onBranch, autoSubmit, canCompare = false, passage, onClearPassage }) => {
+  const [messages, setMessages] = useState<Message[]>(initialMessages);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
   const [currentSnippet, setCurrentSnippet] = useState("");
   const [usedSnippets, setUsedSnippets] = useState<Set<string>>(new Set());
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [editDraft, setEditDraft] = useState('');
   const scrollRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const persistedRef = useRef<Message[]>(initialMessages);
+  const abortRef = useRef<AbortController | null>(null);
+  const mountedRef = useRef(true);
+  const autoSubmittedRef = useRef(false);
   const t = translations[lang];
 
+  // حفظ الحوار بعد اكتمال كل رد فقط، لا مع كل مقطع متدفق
+  useEffect(() => {
+    if (isLoading || messages === persistedRef.current) return;
+    persistedRef.current = messages;
+    onMessagesChange?.(messages);
+  }, [messages, isLoading, onMessagesChange]);
+
   // متغير التحكم في سرعة ظهور المقولات (بالثواني)
   const quoteSpeed = 5; 
 
@@ -69,46 +108,119 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
     setTimeout(() => setCopiedIndex(null), 2000);
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim() || isLoading) return;
-
-    const userText = input;
-    const userMessage: Message = { role: 'user', content: userText };
+  const updateLastMessage = (message: Message) => {
+    setMessages(prev => {
+      const newMessages = [...prev];
+      newMessages[newMessages.length - 1] = message;
+      return newMessages;
+    });
+  };
 
-    setMessages(prev => [...prev, userMessage, { role: 'model', content: '' }]);
-    setInput('');
+  /**
+   * Streams an answer to `userText` on top of `baseMessages`. Every entry point
+   * (submit, regenerate, branch) goes through here so stopping behaves the same.
+   */
+  const sendPrompt = async (userText: string, baseMessages: Message[], mode: ChatMode = 'dialogue', passage?: PassageContext) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const userMessage: Message = {
+      role: 'user',
+      content: userText,
+      ...(mode === 'compare' ? { mode } : {}),
+      ...(passage ? { passage } : {})
+    };
+    setMessages([...baseMessages, userMessage, { role: 'model', content: '' }]);
     setIsLoading(true);
 
     let accumulatedResponse = "";
+    let reply: Message;
 
     try {
-      await chatWithManuscriptStream(userText, lang, (chunk) => {
+      const quotes = await chatWithManuscriptStream(threadId, userText, lang, (chunk) => {
         accumulatedResponse += chunk;
-        setMessages(prev => {
-          const newMessages = [...prev];
-          newMessages[newMessages.length - 1] = { 
-            role: 'model', 
-            content: accumulatedResponse 
-          };
-          return newMessages;
-        });
-      });
+        updateLastMessage({ role: 'model', content: accumulatedResponse });
+      }, { signal: controller.signal, mode, passage });
+      reply = {
+        role: 'model',
+        content: accumulatedResponse,
+        ...(controller.signal.aborted ? { stopped: true } : {}),
+        ...(quotes.length > 0 ? { quotes } : {})
+      };
     } catch (error) {
       console.error("Stream error:", error);
-      setMessages(prev => {
-        const newMessages = [...prev];
-        newMessages[newMessages.length - 1] = { 
-          role: 'model', 
-          content: lang === 'ar' ? "عذراً، انقطع الاتصال بالمحراب." : "Neural link failure." 
-        };
-        return newMessages;
-      });
+      reply = { role: 'model', content: accumulatedResponse, error: toAppError(error).code };
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+    if (mountedRef.current) {
+      updateLastMessage(reply);
       setIsLoading(false);
+    } else {
+      // غادر القارئ المبحث قبل اكتمال الرد: لن يمر الجواب الجزئي بأثر الحفظ، فيُحفظ هنا مباشرة
+      // كي تطابق المحادثة المخزنة ذاكرة الخدمة التي سجلت الدور نفسه
+      onMessagesChange?.([...baseMessages, userMessage, reply]);
     }
   };
 
+  // إيقاف أي تدفق جارٍ عند مغادرة المبحث
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  // إرسال السؤال المعدَّل تلقائياً في الفرع الجديد (مؤجل ليتجاوز التركيب المزدوج في StrictMode)
+  useEffect(() => {
+    if (!autoSubmit || autoSubmittedRef.current) return;
+    const timer = setTimeout(() => {
+      autoSubmittedRef.current = true;
+      sendPrompt(autoSubmit.content, initialMessages, autoSubmit.mode, autoSubmit.passage);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [autoSubmit]);
+
+  // تركيز حقل السؤال حين يصل مقطع جديد من العارض
+  useEffect(() => {
+    if (passage) inputRef.current?.focus();
+  }, [passage]);
+
+  const handleStop = () => abortRef.current?.abort();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if ((!input.trim() && !passage) || isLoading) return;
+
+    // يكفي المقطع وحده: يُسأل عن شرحه إن لم يكتب القارئ سؤالاً
+    const userText = input.trim() ? input : t.passageQuestion;
+    const askedPassage = passage || undefined;
+    setInput('');
+    onClearPassage?.();
+    await sendPrompt(userText, messages, 'dialogue', askedPassage);
+  };
+
+  const handleRegenerate = () => {
+    if (isLoading) return;
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    if (lastUserIndex < 0) return;
+    const kept = messages.slice(0, lastUserIndex);
+    rewindChatThread(threadId, kept);
+    sendPrompt(messages[lastUserIndex].content, kept, messages[lastUserIndex].mode, messages[lastUserIndex].passage);
+  };
+
+  const handleCompare = () => {
+    if (isLoading) return;
+    sendPrompt(t.comparePrompt, messages, 'compare');
+  };
+
+  const handleBranch = (index: number) => {
+    const prompt = editDraft.trim();
+    if (!prompt || !onBranch) return;
+    setEditingIndex(null);
+    onBranch(messages.slice(0, index), editUserMessage(messages[index], prompt));
+  };
+
   return (
     <div className="flex flex-col h-full bg-[#050505] relative overflow-hidden">
       <style>{`
@@ -171,6 +283,8 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
             const ar = isArabic(msg.content);
             const isUser = msg.role === 'user';
             const isStreaming = i === messages.length - 1 && msg.role === 'model' && isLoading;
+            const isLastAnswer = i === messages.length - 1 && msg.role === 'model' && !isLoading;
+            const isEditing = editingIndex === i;
 
             return (
               <div key={i} className={`flex w-full animate-in fade-in duration-500 ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -196,6 +310,44 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
                         )}
                       </button>
                     )}
+                    {isUser && onBranch && !isLoading && !isEditing && (
+                      <button
+                        onClick={() => { setEditingIndex(i); setEditDraft(msg.content); }}
+                        className="absolute top-2 -left-8 p-1.5 text-white/20 hover:text-orange-500 transition-colors opacity-0 group-hover/msg:opacity-100"
+                        title={t.editMessage}
+                      >
+                        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" /></svg>
+                      </button>
+                    )}
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <textarea
+                          autoFocus
+                          value={editDraft}
+                          onChange={(e) => setEditDraft(e.target.value)}
+                          rows={3}
+                          className={`w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm text-white outline-none focus:border-white/20 resize-none ${ar ? 'text-right font-academic' : ''}`}
+                        />
+                        <div className="flex gap-2 justify-end">
+                          <button onClick={() => setEditingIndex(null)} className="px-3 py-1 text-[10px] font-black uppercase tracking-widest text-white/40 hover:text-white">{t.cancel}</button>
+                          <button onClick={() => handleBranch(i)} disabled={!editDraft.trim()} className="px-3 py-1 rounded-lg bg-[#a34a28] text-[10px] font-black uppercase tracking-widest text-white disabled:opacity-30">{t.branchFromHere}</button>
+                        </div>
+                      </div>
+                    ) : (
+                    <>
+                    {msg.passage && (
+                      <div className="mb-2 ps-3 border-s-2 border-[#a34a28]/50">
+                        <button
+                          type="button"
+                          onClick={() => onCitePage?.(msg.passage!.page, msg.passage!.work)}
+                          className="text-[9px] font-black uppercase tracking-widest text-orange-400/80 hover:text-orange-300"
+                          dir="ltr"
+                        >
+                          {formatPassageLabel(msg.passage)}
+                        </button>
+                        <p className={`text-[12px] italic text-white/50 line-clamp-4 ${isArabic(msg.passage.text) ? 'text-right font-academic' : ''}`}>“{msg.passage.text}”</p>
+                      </div>
+                    )}
                     <div className={`prose prose-invert prose-sm md:prose-base max-w-none ${ar ? 'text-right font-academic' : 'text-left'} ${isStreaming ? 'after:content-["_▋"] after:animate-pulse after:text-orange-500' : ''}`}>
                       <ReactMarkdown
                         remarkPlugins={[remarkMath]}
@@ -221,13 +373,83 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
                               <code className="bg-white/10 px-1.5 py-0.5 rounded text-glow-orange font-mono text-xs" {...props}>{children}</code>
                             );
                           },
+                          a({ href, children }) {
+                            const pageLink = href ? PAGE_LINK_PATTERN.exec(href) : null;
+                            if (pageLink) {
+                              const page = parseInt(pageLink[1]);
+                              const work = pageLink[2] ? parseInt(pageLink[2]) : undefined;
+                              return (
+                                <button
+                                  type="button"
+                                  onClick={() => onCitePage?.(page, work)}
+                                  className="inline-flex items-center px-1.5 py-0.5 mx-0.5 rounded bg-[#a34a28]/15 border border-[#a34a28]/30 text-orange-400 text-[0.8em] font-bold hover:bg-[#a34a28]/30 transition-colors align-baseline"
+                                  dir="ltr"
+                                >
+                                  {children}
+                                </button>
+                              );
+                            }
+                            return <a href={href} target="_blank" rel="noopener noreferrer" className="text-orange-400 underline">{children}</a>;
+                          },
                           p({children}) { return <p className="mb-3 last:mb-0 leading-relaxed text-white/90">{children}</p> },
                           strong({children}) { return <strong className="text-glow-orange font-bold">{children}</strong> }
                         }}
                       >
-                        {msg.content}
+                        {isUser ? msg.content : linkifyCitations(msg.content)}
                       </ReactMarkdown>
                     </div>
+                    </>
+                    )}
+                    {msg.quotes && msg.quotes.length > 0 && (
+                      <div className="mt-4 pt-3 border-t border-white/5 space-y-1.5">
+                        <p className="text-[8px] font-black uppercase tracking-[0.4em] text-white/20">{t.quoteChecks}</p>
+                        {msg.quotes.map((check, qi) => (
+                          <div key={qi} className="flex items-start gap-2 text-[11px] leading-snug">
+                            <span className={`shrink-0 mt-0.5 w-3.5 h-3.5 rounded-full flex items-center justify-center text-[8px] font-black ${check.verified ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
+                              {check.verified ? '✓' : '✗'}
+                            </span>
+                            <span className="text-white/50 italic line-clamp-2 flex-1">“{check.quote}”</span>
+                            {check.verified && check.page !== undefined ? (
+                              <button
+                                type="button"
+                                onClick={() => onCitePage?.(check.page!, check.work)}
+                                className="shrink-0 text-[9px] font-black uppercase tracking-widest text-emerald-400/80 hover:text-emerald-300"
+                                dir="ltr"
+                              >
+                                {check.work ? `W${check.work}, ` : ''}p. {check.page}
+                              </button>
+                            ) : (
+                              <span className="shrink-0 text-[9px] font-black uppercase tracking-widest text-red-400/70">{t.quoteNotFound}</span>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {msg.error && (
+                      <ErrorNotice
+                        code={msg.error}
+                        action={createAppError(msg.error).action}
+                        lang={lang}
+                        onRetry={isLastAnswer ? handleRegenerate : undefined}
+                        className="mt-3"
+                      />
+                    )}
+                    {(msg.stopped || isLastAnswer) && (
+                      <div className="flex items-center gap-3 mt-3">
+                        {msg.stopped && (
+                          <span className="text-[9px] font-black uppercase tracking-widest text-white/30">{t.stopped}</span>
+                        )}
+                        {isLastAnswer && (
+                          <button
+                            onClick={handleRegenerate}
+                            className="flex items-center gap-1.5 text-[9px] font-black uppercase tracking-widest text-white/30 hover:text-orange-500 transition-colors"
+                          >
+                            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+                            {t.regenerate}
+                          </button>
+                        )}
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -247,6 +469,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
                     {lang === 'ar' ? 'يتم الآن استحضار جوهر المخطوط...' : 'Summoning the manuscript essence...'}
                   </span>
                 </div>
+                <div className="flex justify-center -mt-4 mb-2">
+                  <QueueIndicator lang={lang} active={isLoading} />
+                </div>
                 <div className="cinematic-quote-container">
                   <p key={currentSnippet} className="cinematic-quote text-base md:text-xl">
                     {currentSnippet}
@@ -260,11 +485,35 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
 
       <div className="absolute bottom-0 left-0 right-0 p-4 md:p-8 bg-gradient-to-t from-[#050505] via-[#050505] to-transparent z-20">
         <div className="max-w-5xl mx-auto">
+          {canCompare && !isLoading && (
+            <div className="flex justify-center mb-3">
+              <button
+                type="button"
+                onClick={handleCompare}
+                className="flex items-center gap-2 px-4 py-1.5 rounded-full border border-[#a34a28]/40 bg-[#a34a28]/10 text-[9px] font-black uppercase tracking-[0.3em] text-orange-400 hover:bg-[#a34a28]/25 transition-all"
+              >
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 7h12m0 0l-4-4m4 4l-4 4m0 6H4m0 0l4 4m-4-4l4-4" /></svg>
+                {t.compareWorks}
+              </button>
+            </div>
+          )}
+          {passage && (
+            <div className="flex items-start gap-3 mb-3 px-4 py-2 rounded-2xl bg-[#a34a28]/10 border border-[#a34a28]/30">
+              <div className="flex-1 min-w-0">
+                <p className="text-[8px] font-black uppercase tracking-[0.3em] text-orange-400">{t.askingAbout(formatPassageLabel(passage))}</p>
+                <p className={`text-[11px] italic text-white/60 line-clamp-2 ${isArabic(passage.text) ? 'text-right font-academic' : ''}`}>“{passage.text}”</p>
+              </div>
+              <button type="button" onClick={onClearPassage} title={t.clearPassage} className="shrink-0 p-1 text-white/30 hover:text-white">
+                <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth="2.5" strokeLinecap="round" /></svg>
+              </button>
+            </div>
+          )}
           <form 
             onSubmit={handleSubmit} 
             className="group relative flex items-end bg-[#1a1a1a]/80 backdrop-blur-2xl border border-white/10 rounded-[1.5rem] md:rounded-[2rem] overflow-hidden focus-within:border-white/20 transition-all duration-300 shadow-2xl"
           >
             <textarea
+              ref={inputRef}
               rows={1}
               value={input}
               onChange={(e) => {
@@ -277,15 +526,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ lang }) => {
               className={`w-full bg-transparent px-5 py-4 md:py-5 focus:outline-none text-white text-sm md:text-base resize-none max-h-48 scrollbar-none ${lang === 'ar' ? 'text-right font-academic' : ''}`}
             />
             <div className="p-2 md:p-3">
+              {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title={t.stop}
+                className="flex items-center justify-center w-10 h-10 md:w-12 md:h-12 bg-white text-black rounded-xl md:rounded-2xl hover:scale-105 active:scale-95 transition-all"
+              >
+                <svg className="w-4 h-4 md:w-5 md:h-5" fill="currentColor" viewBox="0 0 24 24"><rect x="6" y="6" width="12" height="12" rx="2" /></svg>
+              </button>
+              ) : (
               <button 
                 type="submit" 
-                disabled={isLoading || !input.trim()} 
+                disabled={isLoading || (!input.trim() && !passage)} 
                 className="flex items-center justify-center w-10 h-10 md:w-12 md:h-12 bg-white text-black rounded-xl md:rounded-2xl hover:scale-105 active:scale-95 transition-all disabled:opacity-10"
               >
                 <svg className={`w-5 h-5 md:w-6 md:h-6 ${lang === 'ar' ? 'rotate-180' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 12h14M12 5l7 7-7 7" />
                 </svg>
               </button>
+              )}
             </div>
           </form>
           <div className="mt-3 text-center flex flex-col items-center gap-1">
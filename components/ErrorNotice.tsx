@@ -0,0 +1,34 @@
+import React from 'react';
+import { ErrorAction, ErrorCode, Language } from '../types';
+import { translations } from '../translations';
+
+interface ErrorNoticeProps {
+  code: ErrorCode;
+  action: ErrorAction;
+  lang: Language;
+  // يظهر زر إعادة المحاولة فقط حين يكون الحل إعادة الطلب نفسه
+  onRetry?: () => void;
+  className?: string;
+}
+
+const RETRYABLE_ACTIONS: ErrorAction[] = ['retry', 'wait'];
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ code, action, lang, onRetry, className = '' }) => {
+  const t = translations[lang];
+  return (
+    <div className={`flex flex-col items-center gap-2 text-center bg-red-500/10 border border-red-500/20 rounded-2xl px-6 py-3 ${className}`}>
+      <p className="text-red-400 text-[11px] font-bold">{t.errors[code]}</p>
+      <p className="text-white/40 text-[10px]">{t.errorActions[action]}</p>
+      {onRetry && RETRYABLE_ACTIONS.includes(action) && (
+        <button
+          onClick={onRetry}
+          className="mt-1 px-4 py-1 rounded-full border border-red-500/30 text-[9px] font-black uppercase tracking-[0.3em] text-red-300 hover:bg-red-500/20 transition-all"
+        >
+          {t.retry}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -1,10 +1,35 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
-import { PDFData, Language } from '../types';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
+import { PDFData, Language, Annotation, AnnotationRect, HighlightColor, ManuscriptPage, PassageContext } from '../types';
 import { translations } from '../translations';
+import { openPdfDocument, readPageText, renderTextLayer } from '../services/pdfService';
+import { SearchHit, findMatches, searchPages } from '../services/textSearch';
+import { createLibraryId } from '../services/libraryStore';
+import PassageToolbar, { HIGHLIGHT_FILLS } from './PassageToolbar';
+
+export interface PageRequest {
+  page: number;
+  nonce: number;
+}
 
 interface ManuscriptViewerProps {
   pdf: PDFData;
   lang: Language;
+  pageRequest?: PageRequest | null;
+  annotations?: Annotation[];
+  onAnnotationsChange?: (annotations: Annotation[]) => void;
+  onAskAbout?: (passage: PassageContext) => void;
+}
+
+interface PassageSelection {
+  page: number;
+  text: string;
+  rects: AnnotationRect[];
+}
+
+// موضع الشريط العائم بإحداثيات الشاشة، يُحوَّل إلى إحداثيات العارض عند العرض
+interface ToolbarAnchor {
+  x: number;
+  y: number;
 }
 
 interface Bubble {
@@ -16,7 +41,7 @@ interface Bubble {
   opacity: number;
 }
 
-export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang }) => {
+export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang, pageRequest, annotations = [], onAnnotationsChange, onAskAbout }) => {
   const [numPages, setNumPages] = useState<number>(0);
   const [currentPage, setCurrentPage] = useState<number>(1);
   const [loading, setLoading] = useState(true);
@@ -27,7 +52,18 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
   const [showAchievement, setShowAchievement] = useState<string | null>(null);
   const [bubbles, setBubbles] = useState<Bubble[]>([]);
   const [isCelebrating, setIsCelebrating] = useState(false);
-  
+  const [selection, setSelection] = useState<(PassageSelection & ToolbarAnchor) | null>(null);
+  const [openAnnotation, setOpenAnnotation] = useState<(ToolbarAnchor & { id: string }) | null>(null);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [activeHit, setActiveHit] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  // نص الصفحات يُقرأ مرة واحدة عند أول بحث
+  const pageTextsRef = useRef<Promise<ManuscriptPage[]> | null>(null);
+
+  const rootRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const pdfDocRef = useRef<any>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
@@ -163,15 +199,9 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
       setLoading(true);
       setError(null);
       try {
-        // @ts-ignore
-        const pdfjsLib = await import('https://esm.sh/pdfjs-dist@4.10.38');
-        pdfjsLib.GlobalWorkerOptions.workerSrc = `https://esm.sh/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs`;
-        const binaryString = atob(pdf.base64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
-        const loadingTask = pdfjsLib.getDocument({ data: bytes });
-        const pdfDoc = await loadingTask.promise;
+        const pdfDoc = await openPdfDocument(pdf.base64);
         pdfDocRef.current = pdfDoc;
+        pageTextsRef.current = null;
         setNumPages(pdfDoc.numPages);
         setLoading(false);
         const savedPage = localStorage.getItem(storageKeyPage);
@@ -207,22 +237,151 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
     return () => container.removeEventListener('scroll', handleScroll);
   }, [currentPage, numPages, storageKeyPage]);
 
-  const goToPage = (e: React.FormEvent) => {
-    e.preventDefault();
-    const pageNum = parseInt(jumpPage);
+  const scrollToPage = useCallback((pageNum: number) => {
     if (pageNum > 0 && pageNum <= numPages && containerRef.current) {
       containerRef.current.scrollTo({ left: (pageNum - 1) * containerRef.current.clientWidth, behavior: 'smooth' });
-      setJumpPage('');
       localStorage.setItem(storageKeyPage, pageNum.toString());
+      return true;
     }
+    return false;
+  }, [numPages, storageKeyPage]);
+
+  // القفز إلى الصفحة المطلوبة من خارج العارض (مثل الإحالات في الحوار)
+  useEffect(() => {
+    if (!pageRequest || loading) return;
+    const timer = setTimeout(() => scrollToPage(pageRequest.page), 100);
+    return () => clearTimeout(timer);
+  }, [pageRequest, loading, scrollToPage]);
+
+  // البحث بعد توقف الكتابة قليلاً لا مع كل حرف
+  useEffect(() => {
+    const timer = setTimeout(() => setSearchQuery(searchInput.trim()), 250);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const loadPageTexts = (): Promise<ManuscriptPage[]> => {
+    if (!pageTextsRef.current) {
+      const pdfDoc = pdfDocRef.current;
+      pageTextsRef.current = (async () => {
+        const pages: ManuscriptPage[] = [];
+        for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+          pages.push({ page: pageNum, text: await readPageText(pdfDoc, pageNum) });
+        }
+        return pages;
+      })();
+      pageTextsRef.current.catch(() => { pageTextsRef.current = null; });
+    }
+    return pageTextsRef.current;
+  };
+
+  useEffect(() => {
+    if (!searchQuery || loading || error) {
+      setHits([]);
+      setActiveHit(-1);
+      return;
+    }
+    let cancelled = false;
+    setIsSearching(true);
+    loadPageTexts()
+      .then(pages => {
+        if (cancelled) return;
+        const found = searchPages(pages, searchQuery);
+        // نبدأ من أول نتيجة في الصفحة الحالية أو بعدها
+        const first = found.findIndex(hit => hit.page >= currentPage);
+        setHits(found);
+        setActiveHit(found.length === 0 ? -1 : Math.max(first, 0));
+      })
+      .catch(err => console.error("Search error:", err))
+      .finally(() => { if (!cancelled) setIsSearching(false); });
+    return () => { cancelled = true; };
+  }, [searchQuery, loading, error]);
+
+  useEffect(() => {
+    if (activeHit >= 0 && hits[activeHit]) scrollToPage(hits[activeHit].page);
+  }, [activeHit, hits, scrollToPage]);
+
+  const stepHit = (delta: number) => {
+    if (hits.length === 0) return;
+    setActiveHit(prev => (prev + delta + hits.length) % hits.length);
+  };
+
+  const handleSearchKey = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      stepHit(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      setIsSearchOpen(false);
+    }
+  };
+
+  const toggleSearch = () => {
+    setIsSearchOpen(open => !open);
+    setSearchInput('');
+  };
+
+  const goToPage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scrollToPage(parseInt(jumpPage))) setJumpPage('');
   };
 
   const handleZoom = (delta: number) => {
     setZoom(prev => parseFloat(Math.min(Math.max(prev + delta, 0.5), 3.0).toFixed(1)));
   };
 
+  const annotationsByPage = useMemo(() => {
+    const byPage = new Map<number, Annotation[]>();
+    annotations.forEach(a => byPage.set(a.page, [...(byPage.get(a.page) || []), a]));
+    return byPage;
+  }, [annotations]);
+
+  const toViewerPoint = (anchor: ToolbarAnchor): ToolbarAnchor => {
+    const box = rootRef.current?.getBoundingClientRect();
+    return box ? { x: Math.min(Math.max(anchor.x - box.left, 130), box.width - 130), y: Math.max(anchor.y - box.top, 120) } : anchor;
+  };
+
+  const closeToolbar = () => {
+    setSelection(null);
+    setOpenAnnotation(null);
+  };
+
+  const handleSelectText = useCallback((passage: PassageSelection | null, anchor?: ToolbarAnchor) => {
+    setOpenAnnotation(null);
+    setSelection(passage && anchor ? { ...passage, ...toViewerPoint(anchor) } : null);
+  }, []);
+
+  const handleOpenAnnotation = useCallback((id: string, anchor: ToolbarAnchor) => {
+    setSelection(null);
+    setOpenAnnotation({ id, ...toViewerPoint(anchor) });
+  }, []);
+
+  const handleHighlight = (color: HighlightColor, note?: string) => {
+    if (selection) {
+      const { page, text, rects } = selection;
+      onAnnotationsChange?.([...annotations, { id: createLibraryId(), page, text, rects, color, ...(note ? { note } : {}), createdAt: Date.now() }]);
+      window.getSelection()?.removeAllRanges();
+    } else if (openAnnotation) {
+      onAnnotationsChange?.(annotations.map(a => a.id === openAnnotation.id ? { ...a, color, note } : a));
+    }
+    closeToolbar();
+  };
+
+  const handleAsk = () => {
+    const source = selection || annotations.find(a => a.id === openAnnotation?.id);
+    if (source) onAskAbout?.({ text: source.text, page: source.page });
+    window.getSelection()?.removeAllRanges();
+    closeToolbar();
+  };
+
+  const handleRemoveAnnotation = () => {
+    if (openAnnotation) onAnnotationsChange?.(annotations.filter(a => a.id !== openAnnotation.id));
+    closeToolbar();
+  };
+
+  const activeAnnotation = openAnnotation ? annotations.find(a => a.id === openAnnotation.id) : undefined;
+  const toolbarAnchor = selection || openAnnotation;
+
   return (
-    <div className="w-full h-full flex flex-col bg-[#050505] overflow-hidden select-none relative">
+    <div ref={rootRef} className="w-full h-full flex flex-col bg-[#050505] overflow-hidden select-none relative">
       <style>{`
         @keyframes shine-3d {
           0% { transform: perspective(1000px) rotateX(0deg) rotateY(0deg) scale(1); text-shadow: 0 0 10px rgba(255,255,255,0.5); }
@@ -310,6 +469,14 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
                 <input type="number" value={jumpPage} onChange={(e) => setJumpPage(e.target.value)} placeholder={lang === 'ar' ? 'صفحة' : 'Page'} className="bg-transparent text-[8px] text-white w-8 outline-none placeholder:text-white/20" />
                 <button type="submit" className="text-[8px] text-orange-500 font-bold ml-1">GO</button>
              </form>
+             <button
+                onClick={toggleSearch}
+                title={t.searchManuscript}
+                disabled={loading || !!error}
+                className={`h-5 px-1.5 rounded-md border transition-colors ${isSearchOpen ? 'bg-orange-500/20 border-orange-500/40 text-orange-400' : 'bg-white/5 border-white/10 text-white/40 hover:text-white'}`}
+             >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M21 21l-5.2-5.2M17 10.5a6.5 6.5 0 11-13 0 6.5 6.5 0 0113 0z" /></svg>
+             </button>
              <div className="flex items-center bg-white/5 rounded-md border border-white/10 overflow-hidden h-5">
                 <button onClick={() => handleZoom(-0.2)} className="px-1.5 text-white/40 hover:text-white"><svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M20 12H4" /></svg></button>
                 <span className="text-[8px] font-mono text-white/40 px-1 border-x border-white/10">{Math.round(zoom * 100)}%</span>
@@ -348,8 +515,68 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
         </div>
       </div>
 
+      {/* البحث في نص المخطوط: الحقل والتنقل وقائمة النتائج بسياقها */}
+      {isSearchOpen && (
+        <div className="absolute top-14 inset-x-0 z-40 bg-black/95 border-b border-white/10 shadow-2xl">
+          <div className="flex items-center gap-2 px-3 py-2">
+            <input
+              autoFocus
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              onKeyDown={handleSearchKey}
+              placeholder={t.searchPlaceholder}
+              className="flex-1 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[11px] text-white outline-none focus:border-white/20 placeholder:text-white/20"
+            />
+            <span className="text-[9px] font-mono text-white/40 whitespace-nowrap">
+              {isSearching ? t.searching : searchQuery ? t.searchCount(activeHit + 1, hits.length) : ''}
+            </span>
+            <button onClick={() => stepHit(-1)} disabled={hits.length === 0} title={t.previousMatch} className="p-1 text-white/40 hover:text-white disabled:opacity-20">
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 15l7-7 7 7" /></svg>
+            </button>
+            <button onClick={() => stepHit(1)} disabled={hits.length === 0} title={t.nextMatch} className="p-1 text-white/40 hover:text-white disabled:opacity-20">
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M19 9l-7 7-7-7" /></svg>
+            </button>
+            <button onClick={toggleSearch} title={t.cancel} className="p-1 text-white/30 hover:text-white">
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth="3" strokeLinecap="round" /></svg>
+            </button>
+          </div>
+          {hits.length > 0 && (
+            <ul className="max-h-56 overflow-y-auto border-t border-white/5 py-1 scrollbar-none">
+              {hits.map((hit, i) => (
+                <li key={`${hit.page}-${hit.ordinal}`}>
+                  <button
+                    onClick={() => setActiveHit(i)}
+                    className={`w-full flex items-baseline gap-2 px-3 py-1 text-start text-[10px] leading-snug transition-colors ${i === activeHit ? 'bg-orange-500/15' : 'hover:bg-white/5'}`}
+                  >
+                    <span className="shrink-0 w-10 font-mono text-orange-400/80" dir="ltr">p. {hit.page}</span>
+                    <span className="text-white/50 truncate" dir="auto">
+                      {hit.before}<mark className="bg-orange-500/30 text-white rounded-sm px-0.5">{hit.match}</mark>{hit.after}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* شريط التظليل والسؤال فوق المقطع المحدد أو التظليل المفتوح من الهامش */}
+      {toolbarAnchor && (selection || activeAnnotation) && (
+        <PassageToolbar
+          key={selection ? `selection-${selection.page}-${selection.x}-${selection.y}` : openAnnotation!.id}
+          lang={lang}
+          x={toolbarAnchor.x}
+          y={toolbarAnchor.y}
+          annotation={activeAnnotation}
+          onHighlight={handleHighlight}
+          onAsk={handleAsk}
+          onRemove={activeAnnotation ? handleRemoveAnnotation : undefined}
+          onClose={closeToolbar}
+        />
+      )}
+
       {/* منطقة عرض الصفحات */}
-      <div ref={containerRef} className="flex-1 overflow-x-auto overflow-y-hidden snap-x snap-mandatory bg-black flex flex-row items-center scrollbar-none scroll-smooth relative">
+      <div ref={containerRef} onScroll={closeToolbar} className="flex-1 overflow-x-auto overflow-y-hidden snap-x snap-mandatory bg-black flex flex-row items-center scrollbar-none scroll-smooth relative">
         {loading && (
           <div className="absolute inset-0 flex flex-col items-center justify-center space-y-4 z-50 bg-black">
             <div className="spinner-arc w-12 h-12 border-t-orange-600"></div>
@@ -363,7 +590,16 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
         )}
         {!loading && !error && Array.from({ length: numPages }, (_, i) => (
           <div key={i} className="w-full h-full flex-shrink-0 flex items-center justify-center snap-center overflow-auto scrollbar-none">
-            <PageRenderer pdfDoc={pdfDocRef.current} pageNum={i + 1} zoom={zoom} />
+            <PageRenderer
+              pdfDoc={pdfDocRef.current}
+              pageNum={i + 1}
+              zoom={zoom}
+              annotations={annotationsByPage.get(i + 1)}
+              searchQuery={isSearchOpen ? searchQuery : ''}
+              activeMatch={hits[activeHit]?.page === i + 1 ? hits[activeHit].ordinal : undefined}
+              onSelectText={handleSelectText}
+              onOpenAnnotation={handleOpenAnnotation}
+            />
           </div>
         ))}
       </div>
@@ -371,11 +607,80 @@ export const ManuscriptViewer: React.FC<ManuscriptViewerProps> = ({ pdf, lang })
   );
 };
 
-const PageRenderer: React.FC<{ pdfDoc: any, pageNum: number, zoom: number }> = ({ pdfDoc, pageNum, zoom }) => {
+interface PageRendererProps {
+  pdfDoc: any;
+  pageNum: number;
+  zoom: number;
+  annotations?: Annotation[];
+  searchQuery: string;
+  // ترتيب المطابقة النشطة في هذه الصفحة، إن كانت فيها
+  activeMatch?: number;
+  // null حين ينتهي النقر دون تحديد، لإغلاق الشريط المفتوح
+  onSelectText: (passage: PassageSelection | null, anchor?: ToolbarAnchor) => void;
+  onOpenAnnotation: (id: string, anchor: ToolbarAnchor) => void;
+}
+
+// مستطيلات التحديد نسبةً إلى الصفحة، دون المكرر منها (يعيد المتصفح أحياناً مستطيل السطر ومستطيل الكلمة معاً)
+const toPageRects = (range: Range, box: DOMRect): AnnotationRect[] => {
+  const seen = new Set<string>();
+  return Array.from(range.getClientRects()).flatMap(rect => {
+    if (rect.width < 1 || rect.height < 1) return [];
+    const relative = {
+      x: (rect.left - box.left) / box.width,
+      y: (rect.top - box.top) / box.height,
+      width: rect.width / box.width,
+      height: rect.height / box.height
+    };
+    const key = [relative.x, relative.y, relative.width].map(v => v.toFixed(3)).join(':');
+    if (seen.has(key)) return [];
+    seen.add(key);
+    return [relative];
+  });
+};
+
+/**
+ * Finds `query` in a rendered text layer and returns the rectangles of each
+ * match relative to the page. Line breaks count as spaces, as in `readPageText`,
+ * so match ordinals line up with the search results list.
+ */
+const locateMatches = (layer: HTMLElement, box: DOMRect, query: string): AnnotationRect[][] => {
+  const segments: Array<{ node: Text | null; start: number; length: number }> = [];
+  let text = '';
+  const walker = document.createTreeWalker(layer, NodeFilter.SHOW_TEXT | NodeFilter.SHOW_ELEMENT);
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const data = (node as Text).data;
+      segments.push({ node: node as Text, start: text.length, length: data.length });
+      text += data;
+    } else if ((node as Element).tagName === 'BR') {
+      segments.push({ node: null, start: text.length, length: 1 });
+      text += ' ';
+    }
+  }
+  const textSegments = segments.filter(seg => seg.node);
+  return findMatches(text, query).flatMap(({ start, end }) => {
+    const from = textSegments.find(seg => start < seg.start + seg.length);
+    const to = [...textSegments].reverse().find(seg => seg.start < end);
+    if (!from || !to) return [];
+    const range = document.createRange();
+    range.setStart(from.node!, Math.max(0, start - from.start));
+    range.setEnd(to.node!, Math.min(end - to.start, to.length));
+    return [toPageRects(range, box)];
+  });
+};
+
+const PageRenderer: React.FC<PageRendererProps> = ({ pdfDoc, pageNum, zoom, annotations = [], searchQuery, activeMatch, onSelectText, onOpenAnnotation }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pageBoxRef = useRef<HTMLDivElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
   const renderTaskRef = useRef<any>(null);
+  const textLayerStartedRef = useRef(false);
   const [isVisible, setIsVisible] = useState(false);
   const [isRendered, setIsRendered] = useState(false);
+  // عرض الصفحة بمقياس 1، تُحسب منه نسبة طبقة النص إلى حجم اللوحة المعروض
+  const [baseWidth, setBaseWidth] = useState(0);
+  const [scaleFactor, setScaleFactor] = useState(1);
+  const [matchRects, setMatchRects] = useState<AnnotationRect[][]>([]);
 
   useEffect(() => {
     const observer = new IntersectionObserver(([entry]) => setIsVisible(entry.isIntersecting), { threshold: 0.1, rootMargin: '0px 400px 0px 400px' });
@@ -398,6 +703,13 @@ const PageRenderer: React.FC<{ pdfDoc: any, pageNum: number, zoom: number }> = (
         renderTaskRef.current = page.render({ canvasContext: context, viewport });
         await renderTaskRef.current.promise;
         setIsRendered(true);
+        // طبقة النص تُبنى مرة واحدة بمقياس 1، والتكبير يغير متغير المقياس فقط
+        if (!textLayerStartedRef.current && textLayerRef.current) {
+          textLayerStartedRef.current = true;
+          const baseViewport = page.getViewport({ scale: 1 });
+          await renderTextLayer(page, textLayerRef.current, baseViewport);
+          setBaseWidth(baseViewport.width);
+        }
       } catch (err: any) {
         if (err.name !== 'RenderingCancelledException') console.error(`Error rendering page ${pageNum}:`, err);
       }
@@ -406,15 +718,92 @@ const PageRenderer: React.FC<{ pdfDoc: any, pageNum: number, zoom: number }> = (
     return () => { if (renderTaskRef.current) renderTaskRef.current.cancel(); };
   }, [isVisible, pdfDoc, pageNum, zoom]);
 
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || baseWidth === 0) return;
+    const observer = new ResizeObserver(() => setScaleFactor(canvas.clientWidth / baseWidth));
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [baseWidth]);
+
+  // مواضع نتائج البحث على الصفحة، تُعاد حين تجهز طبقة النص أو يتغير مقياسها
+  useEffect(() => {
+    const layer = textLayerRef.current;
+    const box = pageBoxRef.current;
+    if (!searchQuery || baseWidth === 0 || !layer || !box) {
+      setMatchRects([]);
+      return;
+    }
+    setMatchRects(locateMatches(layer, box.getBoundingClientRect(), searchQuery));
+  }, [searchQuery, baseWidth, scaleFactor]);
+
+  const handleMouseUp = () => {
+    const selected = window.getSelection();
+    if (!selected || selected.isCollapsed || selected.rangeCount === 0) return onSelectText(null);
+    if (!pageBoxRef.current || !textLayerRef.current) return;
+    const range = selected.getRangeAt(0);
+    if (!textLayerRef.current.contains(range.commonAncestorContainer)) return;
+    const text = selected.toString().replace(/\s+/g, ' ').trim();
+    const rects = toPageRects(range, pageBoxRef.current.getBoundingClientRect());
+    if (!text || rects.length === 0) return;
+    const bounds = range.getBoundingClientRect();
+    onSelectText({ page: pageNum, text, rects }, { x: bounds.left + bounds.width / 2, y: bounds.top });
+  };
+
   return (
     <div className="relative flex items-center justify-center min-h-full min-w-full p-2 md:p-4">
-      <div className="relative shadow-2xl bg-white transition-transform duration-300">
+      <div
+        ref={pageBoxRef}
+        className="relative shadow-2xl bg-white transition-transform duration-300"
+        style={{ '--scale-factor': scaleFactor } as React.CSSProperties}
+        onMouseUp={handleMouseUp}
+        onTouchEnd={handleMouseUp}
+      >
         {!isRendered && (
           <div className="absolute inset-0 flex items-center justify-center bg-zinc-900">
              <div className="w-6 h-6 border-2 border-white/5 border-t-white/20 rounded-full animate-spin"></div>
           </div>
         )}
         <canvas ref={canvasRef} className={`block object-contain transition-opacity duration-500 ${isRendered ? 'opacity-100' : 'opacity-0'}`} style={{ width: 'auto', height: zoom > 1.2 ? 'auto' : 'calc(100vh - 80px)', maxWidth: '100%', maxHeight: zoom > 1.2 ? 'none' : 'calc(100vh - 80px)' }} />
+        {/* التظليلات تحت طبقة النص حتى يبقى النص قابلاً للتحديد فوقها */}
+        <div className="absolute inset-0 pointer-events-none">
+          {annotations.flatMap(annotation => annotation.rects.map((rect, i) => (
+            <div
+              key={`${annotation.id}-${i}`}
+              className="absolute mix-blend-multiply rounded-[1px]"
+              style={{
+                left: `${rect.x * 100}%`,
+                top: `${rect.y * 100}%`,
+                width: `${rect.width * 100}%`,
+                height: `${rect.height * 100}%`,
+                background: HIGHLIGHT_FILLS[annotation.color]
+              }}
+            />
+          )))}
+          {matchRects.flatMap((rects, match) => rects.map((rect, i) => (
+            <div
+              key={`match-${match}-${i}`}
+              className={`absolute mix-blend-multiply rounded-[1px] ${match === activeMatch ? 'bg-orange-500/70 outline outline-2 outline-orange-600' : 'bg-yellow-300/60'}`}
+              style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}
+            />
+          )))}
+        </div>
+        <div ref={textLayerRef} className="textLayer select-text" />
+        {/* علامات الهامش: واحدة لكل تظليل، تفتح الحاشية وأدوات التعديل */}
+        {annotations.map(annotation => (
+          <button
+            key={annotation.id}
+            onClick={(e) => {
+              const bounds = e.currentTarget.getBoundingClientRect();
+              onOpenAnnotation(annotation.id, { x: bounds.left + bounds.width / 2, y: bounds.top });
+            }}
+            title={annotation.note || annotation.text}
+            className="absolute z-[5] -right-1 translate-x-full flex items-center justify-center w-4 h-4 rounded-full border border-black/20 shadow hover:scale-125 transition-transform"
+            style={{ top: `${Math.min(...annotation.rects.map(r => r.y)) * 100}%`, background: HIGHLIGHT_FILLS[annotation.color] }}
+          >
+            {annotation.note && <span className="text-[8px] leading-none text-black/70">✎</span>}
+          </button>
+        ))}
       </div>
     </div>
   );
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Annotation, HighlightColor, Language } from '../types';
+import { translations } from '../translations';
+
+// ألوان التظليل فوق صفحة بيضاء (تُمزج بالضرب حتى يبقى الحبر مقروءاً)
+export const HIGHLIGHT_FILLS: Record<HighlightColor, string> = {
+  amber: 'rgba(251, 191, 36, 0.45)',
+  emerald: 'rgba(52, 211, 153, 0.4)',
+  sky: 'rgba(56, 189, 248, 0.4)',
+  rose: 'rgba(251, 113, 133, 0.4)'
+};
+
+const COLORS = Object.keys(HIGHLIGHT_FILLS) as HighlightColor[];
+
+interface PassageToolbarProps {
+  lang: Language;
+  // موضع الشريط داخل العارض: منتصف أعلى المقطع المحدد
+  x: number;
+  y: number;
+  // التظليل القائم عند فتحه من الهامش؛ غيابه يعني تحديداً جديداً
+  annotation?: Annotation;
+  onHighlight: (color: HighlightColor, note?: string) => void;
+  onAsk: () => void;
+  onRemove?: () => void;
+  onClose: () => void;
+}
+
+const PassageToolbar: React.FC<PassageToolbarProps> = ({ lang, x, y, annotation, onHighlight, onAsk, onRemove, onClose }) => {
+  const t = translations[lang];
+  const [isWritingNote, setIsWritingNote] = useState(!!annotation?.note);
+  const [note, setNote] = useState(annotation?.note || '');
+  const [color, setColor] = useState<HighlightColor>(annotation?.color || 'amber');
+
+  const handleColor = (next: HighlightColor) => {
+    setColor(next);
+    if (!isWritingNote) onHighlight(next);
+  };
+
+  return (
+    <div
+      className="absolute z-[60] -translate-x-1/2 -translate-y-full pb-2"
+      style={{ left: x, top: y }}
+      // إبقاء التحديد ظاهراً أثناء النقر على الشريط
+      onMouseDown={(e) => { if (!(e.target instanceof HTMLTextAreaElement)) e.preventDefault(); }}
+    >
+      <div className="flex flex-col gap-2 bg-[#141414]/95 backdrop-blur-xl border border-white/10 rounded-2xl px-3 py-2 shadow-2xl min-w-[220px]">
+        <div className="flex items-center gap-2">
+          <span className="text-[8px] font-black uppercase tracking-widest text-white/30">{t.highlightColor}</span>
+          {COLORS.map(option => (
+            <button
+              key={option}
+              onClick={() => handleColor(option)}
+              className={`w-4 h-4 rounded-full border transition-transform hover:scale-110 ${color === option ? 'border-white scale-110' : 'border-white/20'}`}
+              style={{ background: HIGHLIGHT_FILLS[option] }}
+              aria-label={option}
+            />
+          ))}
+          <div className="flex-1" />
+          <button onClick={onClose} className="p-0.5 text-white/30 hover:text-white" title={t.cancel}>
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M6 18L18 6M6 6l12 12" strokeWidth="3" strokeLinecap="round" /></svg>
+          </button>
+        </div>
+        {isWritingNote ? (
+          <div className="flex flex-col gap-1.5">
+            <textarea
+              autoFocus
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={3}
+              placeholder={t.notePlaceholder}
+              className={`w-full bg-black/40 border border-white/10 rounded-lg px-2 py-1.5 text-[11px] text-white outline-none focus:border-white/20 resize-none ${lang === 'ar' ? 'text-right' : ''}`}
+            />
+            <button
+              onClick={() => onHighlight(color, note.trim() || undefined)}
+              className="self-end px-3 py-1 rounded-lg bg-[#a34a28] text-[9px] font-black uppercase tracking-widest text-white"
+            >
+              {t.saveNote}
+            </button>
+          </div>
+        ) : (
+          <button onClick={() => setIsWritingNote(true)} className="text-start text-[9px] font-black uppercase tracking-widest text-white/50 hover:text-white">
+            {t.addNote}
+          </button>
+        )}
+        <div className="flex items-center gap-3 border-t border-white/5 pt-2">
+          <button onClick={onAsk} className="text-[9px] font-black uppercase tracking-widest text-orange-400 hover:text-orange-300">
+            {t.askAboutThis}
+          </button>
+          {onRemove && (
+            <button onClick={onRemove} className="ms-auto text-[9px] font-black uppercase tracking-widest text-red-400/70 hover:text-red-300">
+              {t.removeAnnotation}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PassageToolbar;
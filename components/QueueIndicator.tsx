@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { Language } from '../types';
+import { translations } from '../translations';
+import { QueueState, getLLMProvider } from '../services/llmProvider';
+
+interface QueueIndicatorProps {
+  lang: Language;
+  // يُستطلع الطابور فقط أثناء انتظار طلب فعلي
+  active: boolean;
+}
+
+const POLL_INTERVAL_MS = 1500;
+
+const QueueIndicator: React.FC<QueueIndicatorProps> = ({ lang, active }) => {
+  const [state, setState] = useState<QueueState | null>(null);
+  const t = translations[lang];
+
+  useEffect(() => {
+    const provider = getLLMProvider();
+    if (!active || !provider.getQueueState) {
+      setState(null);
+      return;
+    }
+    let cancelled = false;
+    const poll = () => {
+      provider.getQueueState!()
+        .then(next => { if (!cancelled) setState(next); })
+        .catch(() => { if (!cancelled) setState(null); });
+    };
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [active]);
+
+  if (!state || (state.interactive + state.background === 0 && state.waitMs < 1000)) return null;
+
+  return (
+    <p className="text-[9px] font-black uppercase tracking-[0.3em] text-white/30">
+      {t.queueStatus(state.interactive + state.background, Math.ceil(state.waitMs / 1000))}
+    </p>
+  );
+};
+
+export default QueueIndicator;
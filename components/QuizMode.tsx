@@ -0,0 +1,284 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Language, OutlineEntry, PDFData, PageRange, QuizGrade, QuizQuestion, QuizVerdict } from '../types';
+import { translations } from '../translations';
+import { getManuscriptState } from '../services/geminiService';
+import { extractPdfOutline } from '../services/pdfService';
+import { QUIZ_SIZES, chaptersFromOutline, chunksInRange, generateQuiz, gradeChoice, gradeShortAnswer } from '../services/quizService';
+import { AppError, toAppError } from '../services/errors';
+import ErrorNotice from './ErrorNotice';
+
+interface QuizModeProps {
+  pdf: PDFData;
+  lang: Language;
+  onOpenPage: (page: number) => void;
+  onBack: () => void;
+}
+
+interface QuizResponse {
+  choice?: number;
+  text?: string;
+  grade?: QuizGrade;
+  isGrading?: boolean;
+  error?: AppError;
+}
+
+const VERDICT_STYLES: Record<QuizVerdict, string> = {
+  correct: 'bg-emerald-500/15 border-emerald-500/40 text-emerald-300',
+  partial: 'bg-amber-500/15 border-amber-500/40 text-amber-300',
+  incorrect: 'bg-red-500/15 border-red-500/40 text-red-300'
+};
+
+const QuizMode: React.FC<QuizModeProps> = ({ pdf, lang, onOpenPage, onBack }) => {
+  const t = translations[lang];
+  const { chunks, pages } = getManuscriptState();
+  const lastPage = pages.length > 0 ? pages[pages.length - 1].page : 1;
+  const [outline, setOutline] = useState<OutlineEntry[]>([]);
+  // 'all' أو 'custom' أو رقم الفصل في الفهرس
+  const [scope, setScope] = useState('all');
+  const [customRange, setCustomRange] = useState<PageRange>({ from: 1, to: lastPage });
+  const [size, setSize] = useState(QUIZ_SIZES[0]);
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [responses, setResponses] = useState<Record<string, QuizResponse>>({});
+  const [openPassages, setOpenPassages] = useState<Set<string>>(new Set());
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    // فهرس الـ PDF اختياري: بدونه يبقى الاختيار بالمخطوط كله أو بنطاق صفحات
+    extractPdfOutline(pdf.base64)
+      .then(entries => { if (!cancelled) setOutline(entries); })
+      .catch(err => console.warn("Outline read failed:", err));
+    return () => { cancelled = true; abortRef.current?.abort(); };
+  }, [pdf.base64]);
+
+  const chapters = useMemo(() => chaptersFromOutline(outline, lastPage), [outline, lastPage]);
+  const range: PageRange = scope === 'all'
+    ? { from: 1, to: lastPage }
+    : scope === 'custom'
+      ? { from: Math.min(customRange.from, customRange.to), to: Math.max(customRange.from, customRange.to) }
+      : chapters[Number(scope)];
+  const hasText = chunksInRange(chunks, range).length > 0;
+
+  const updateResponse = (id: string, patch: QuizResponse) =>
+    setResponses(prev => ({ ...prev, [id]: { ...prev[id], ...patch } }));
+
+  const handleGenerate = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const quiz = await generateQuiz({ chunks, pages }, range, size, { signal: controller.signal });
+      setQuestions(quiz);
+      setResponses({});
+      setOpenPassages(new Set());
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Quiz generation error:", err);
+      setError(toAppError(err));
+    } finally {
+      if (abortRef.current === controller) setIsGenerating(false);
+    }
+  };
+
+  const handleChoice = (question: QuizQuestion, choice: number) => {
+    if (responses[question.id]?.grade) return;
+    updateResponse(question.id, { choice, grade: gradeChoice(question, choice) });
+  };
+
+  const handleCheck = async (question: QuizQuestion) => {
+    const text = responses[question.id]?.text?.trim();
+    if (!text) return;
+    updateResponse(question.id, { isGrading: true, error: undefined });
+    try {
+      updateResponse(question.id, { grade: await gradeShortAnswer(question, text), isGrading: false });
+    } catch (err) {
+      console.error("Quiz grading error:", err);
+      updateResponse(question.id, { error: toAppError(err), isGrading: false });
+    }
+  };
+
+  const togglePassage = (id: string) => setOpenPassages(prev => {
+    const next = new Set(prev);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  });
+
+  const grades = Object.values(responses).flatMap(response => response.grade ? [response.grade.verdict] : []);
+  const score = t.quizScore(grades.filter(v => v === 'correct').length, grades.filter(v => v === 'partial').length, questions?.length ?? 0);
+
+  const pageButton = (page: number) => (
+    <button
+      onClick={() => onOpenPage(page)}
+      className="shrink-0 px-2 py-0.5 rounded bg-indigo-500/10 border border-indigo-500/30 text-[9px] font-black text-indigo-300 hover:bg-indigo-500/25 transition-colors"
+      dir="ltr"
+    >
+      p. {page}
+    </button>
+  );
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-8 touch-auto">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <button onClick={onBack} className="text-[10px] font-black tracking-widest uppercase text-white/30 hover:text-white transition-colors">
+            {lang === 'ar' ? '→' : '←'} {t.axiomsTitle}
+          </button>
+          {questions && <span className="text-[10px] font-black tracking-widest uppercase text-orange-500/70">{score}</span>}
+        </div>
+
+        <section className="p-5 rounded-2xl bg-white/[0.02] border border-white/10 space-y-4">
+          <h3 className="text-lg md:text-2xl font-black uppercase tracking-widest text-white/90">{t.takeQuiz}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_auto] gap-3">
+            <label className="block">
+              <span className="block text-[9px] font-black tracking-[0.3em] uppercase text-white/30 mb-1">{t.quizScope}</span>
+              <select
+                value={scope}
+                onChange={(e) => setScope(e.target.value)}
+                className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[11px] text-white outline-none focus:border-white/30"
+              >
+                <option value="all">{t.wholeManuscript}</option>
+                {chapters.map((chapter, i) => (
+                  <option key={i} value={String(i)}>{chapter.title} (p. {chapter.from}–{chapter.to})</option>
+                ))}
+                <option value="custom">{t.customRange}</option>
+              </select>
+            </label>
+            <div>
+              <span className="block text-[9px] font-black tracking-[0.3em] uppercase text-white/30 mb-1">{t.quizSize}</span>
+              <div className="flex gap-1 bg-white/5 p-1 rounded-xl">
+                {QUIZ_SIZES.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setSize(option)}
+                    className={`px-4 py-1.5 text-[10px] font-black rounded-lg transition-all ${size === option ? 'bg-[#a34a28] text-white' : 'text-white/30'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+          {scope === 'custom' && (
+            <div className="flex items-center gap-3 text-[10px] text-white/40">
+              <span>{t.pageFrom}</span>
+              <input
+                type="number"
+                min={1}
+                max={lastPage}
+                value={customRange.from}
+                onChange={(e) => setCustomRange(prev => ({ ...prev, from: Math.max(1, Math.min(lastPage, Number(e.target.value) || 1)) }))}
+                className="w-20 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-white/30"
+              />
+              <span>{t.pageTo}</span>
+              <input
+                type="number"
+                min={1}
+                max={lastPage}
+                value={customRange.to}
+                onChange={(e) => setCustomRange(prev => ({ ...prev, to: Math.max(1, Math.min(lastPage, Number(e.target.value) || 1)) }))}
+                className="w-20 bg-black/40 border border-white/10 rounded-lg px-2 py-1 text-white outline-none focus:border-white/30"
+              />
+            </div>
+          )}
+          {!hasText && <p className="text-[10px] text-red-400/80">{t.rangeWithoutText}</p>}
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating || !hasText}
+            className="w-full py-3 rounded-full bg-[#a34a28] font-black text-[10px] tracking-[0.3em] uppercase hover:bg-orange-800 transition-all disabled:opacity-30 active:scale-95"
+          >
+            {isGenerating ? t.generatingQuiz : questions ? t.newQuiz : t.generateQuiz}
+          </button>
+          {error && <ErrorNotice code={error.code} action={error.action} lang={lang} onRetry={handleGenerate} />}
+        </section>
+
+        {questions?.map((question, i) => {
+          const response = responses[question.id] || {};
+          const grade = response.grade;
+          return (
+            <article key={question.id} className="p-5 rounded-2xl bg-white/[0.02] border border-white/5 space-y-4">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[9px] font-black tracking-[0.3em] uppercase text-indigo-400/60">
+                  {t.report.question} {i + 1} · {question.kind === 'multiple_choice' ? t.multipleChoice : t.shortAnswer}
+                </span>
+                {grade && (
+                  <span className={`px-2 py-0.5 rounded-full border text-[9px] font-black uppercase tracking-widest ${VERDICT_STYLES[grade.verdict]}`}>
+                    {t.verdicts[grade.verdict]}
+                  </span>
+                )}
+              </div>
+              <p className="text-white/90 text-sm md:text-base font-bold leading-relaxed" dir="auto">{question.question}</p>
+
+              {question.kind === 'multiple_choice' && question.choices ? (
+                <div className="space-y-2">
+                  {question.choices.map((choice, c) => {
+                    const isAnswer = grade && c === question.answerIndex;
+                    const isWrongPick = grade && c === response.choice && c !== question.answerIndex;
+                    return (
+                      <button
+                        key={c}
+                        onClick={() => handleChoice(question, c)}
+                        disabled={!!grade}
+                        dir="auto"
+                        className={`w-full text-start px-4 py-2.5 rounded-xl border text-[12px] transition-all ${isAnswer ? VERDICT_STYLES.correct : isWrongPick ? VERDICT_STYLES.incorrect : 'bg-white/[0.02] border-white/10 text-white/70 hover:bg-white/5 disabled:hover:bg-white/[0.02]'}`}
+                      >
+                        {choice}
+                      </button>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <textarea
+                    value={response.text || ''}
+                    onChange={(e) => updateResponse(question.id, { text: e.target.value })}
+                    disabled={!!grade || response.isGrading}
+                    placeholder={t.answerPlaceholder}
+                    dir="auto"
+                    rows={3}
+                    className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-[12px] text-white placeholder:text-white/20 outline-none focus:border-white/30 resize-none disabled:opacity-60"
+                  />
+                  {!grade && (
+                    <button
+                      onClick={() => handleCheck(question)}
+                      disabled={!response.text?.trim() || response.isGrading}
+                      className="px-5 py-2 rounded-xl bg-white/5 border border-white/10 text-[9px] font-black tracking-widest uppercase text-white/60 hover:text-white hover:bg-white/10 transition-all disabled:opacity-30"
+                    >
+                      {response.isGrading ? t.grading : t.checkAnswer}
+                    </button>
+                  )}
+                  {response.error && (
+                    <ErrorNotice code={response.error.code} action={response.error.action} lang={lang} onRetry={() => handleCheck(question)} />
+                  )}
+                </div>
+              )}
+
+              {grade && (
+                <div className="space-y-3 pt-3 border-t border-white/5">
+                  <p className="text-[12px] text-white/70 leading-relaxed" dir="auto">{grade.feedback}</p>
+                  <div className="flex items-start gap-2">
+                    <p className="flex-1 text-[11px] text-white/50 italic leading-relaxed" dir="auto">“{question.source.quote}”</p>
+                    {pageButton(question.source.page)}
+                  </div>
+                  {!question.source.verified && <p className="text-[9px] text-white/30">{t.sourceUnverified}</p>}
+                  <button onClick={() => togglePassage(question.id)} className="text-[9px] font-black tracking-widest uppercase text-white/30 hover:text-white transition-colors">
+                    {openPassages.has(question.id) ? t.hidePassage : t.showPassage}
+                  </button>
+                  {openPassages.has(question.id) && (
+                    <p className="text-[11px] text-white/40 leading-relaxed whitespace-pre-line border-s-2 border-white/10 ps-3" dir="auto">{question.source.passage}</p>
+                  )}
+                </div>
+              )}
+            </article>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default QuizMode;
@@ -1,7 +1,10 @@
 
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import { Language } from '../types';
 import { translations } from '../translations';
+import { LibrarySummary } from '../services/libraryStore';
+import { BUNDLE_EXTENSION } from '../services/sanctuaryBundle';
+import { normalizeText } from '../services/textNormalizer';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -9,10 +12,30 @@ interface SidebarProps {
   lang: Language;
   setLang: (l: Language) => void;
   onNewChat: () => void;
+  library: LibrarySummary[];
+  activeId: string | null;
+  onOpenSanctuary: (id: string) => void;
+  onDeleteSanctuary: (id: string) => void;
+  onExportSanctuary: (id: string, includeFile: boolean) => void;
+  // ملف المحراب، ومعه ملفات PDF حين صُدِّر بالإحالة فقط
+  onImport: (files: File[]) => void;
+  onStudyDue: () => void;
 }
 
-const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, lang, setLang, onNewChat }) => {
+const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, lang, setLang, onNewChat, library, activeId, onOpenSanctuary, onDeleteSanctuary, onExportSanctuary, onImport, onStudyDue }) => {
+  const [query, setQuery] = useState('');
+  const [includeFile, setIncludeFile] = useState(true);
   const t = translations[lang];
+  const dueTotal = library.reduce((sum, item) => sum + item.dueCount, 0);
+
+  // البحث في العنوان والمؤلف واسم الملف مع توحيد الكتابة العربية
+  const filteredLibrary = useMemo(() => {
+    const needle = normalizeText(query.trim());
+    if (!needle) return library;
+    return library.filter(item =>
+      normalizeText([item.name, item.metadata.title, item.metadata.author].filter(Boolean).join(' ')).includes(needle)
+    );
+  }, [library, query]);
 
   return (
     <>
@@ -37,6 +60,83 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, lang, setLang, onNew
               </div>
               <span className="text-[10px] font-black tracking-widest uppercase text-white/80">{t.newSanctuary}</span>
             </button>
+            {library.length > 0 && (
+              <button
+                onClick={() => { onStudyDue(); onClose(); }}
+                className="w-full mt-2 flex items-center justify-between gap-3 p-4 bg-white/[0.02] border border-white/5 rounded-2xl hover:bg-white/5 transition-all"
+              >
+                <span className="text-[10px] font-black tracking-widest uppercase text-white/60">{t.dueToday}</span>
+                <span className={`text-[9px] font-black px-2 py-0.5 rounded-full ${dueTotal > 0 ? 'bg-[#a34a28] text-white' : 'bg-white/5 text-white/30'}`}>{t.dueCount(dueTotal)}</span>
+              </button>
+            )}
+          </section>
+
+          <section>
+            <p className="text-[9px] font-black tracking-[0.4em] text-white/20 uppercase mb-4">{t.library}</p>
+            {library.length > 0 && (
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t.searchLibrary}
+                className="w-full mb-3 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-[10px] text-white placeholder:text-white/20 outline-none focus:border-white/20"
+              />
+            )}
+            <ul className="space-y-2">
+              {filteredLibrary.map(item => (
+                <li key={item.id} className="group/item flex items-center gap-2">
+                  <button
+                    onClick={() => { onOpenSanctuary(item.id); onClose(); }}
+                    className={`flex-1 min-w-0 text-start p-3 rounded-xl border transition-all ${item.id === activeId ? 'bg-[#a34a28]/15 border-[#a34a28]/40' : 'bg-white/[0.02] border-white/5 hover:bg-white/5'}`}
+                  >
+                    <span className="block text-[10px] font-bold text-white/80 truncate">{item.metadata.title || item.name}</span>
+                    <span className="block text-[8px] text-white/30 truncate mt-0.5">
+                      {item.metadata.author ? `${item.metadata.author} · ` : ''}{new Date(item.updatedAt).toLocaleDateString(lang === 'ar' ? 'ar' : 'en')}
+                      {item.dueCount > 0 && <span className="text-orange-500/70"> · {t.dueCount(item.dueCount)}</span>}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => onExportSanctuary(item.id, includeFile)}
+                    title={t.exportSanctuary}
+                    className="p-2 text-white/10 hover:text-orange-500 transition-colors opacity-0 group-hover/item:opacity-100"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" /></svg>
+                  </button>
+                  <button
+                    onClick={() => onDeleteSanctuary(item.id)}
+                    title={t.deleteSanctuary}
+                    className="p-2 text-white/10 hover:text-red-500 transition-colors opacity-0 group-hover/item:opacity-100"
+                  >
+                    <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M6 18L18 6M6 6l12 12" /></svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {filteredLibrary.length === 0 && (
+              <p className="text-[10px] text-white/20 italic">{t.emptyLibrary}</p>
+            )}
+            <div className="mt-4 space-y-2">
+              <label className="w-full flex items-center justify-center gap-2 p-3 rounded-xl border border-dashed border-white/10 hover:border-white/20 cursor-pointer transition-all">
+                <input
+                  type="file"
+                  multiple
+                  className="hidden"
+                  accept={`${BUNDLE_EXTENSION},.json,application/json,application/pdf`}
+                  onChange={(e) => {
+                    const files = Array.from(e.target.files || []);
+                    e.target.value = '';
+                    if (files.length > 0) { onImport(files); onClose(); }
+                  }}
+                />
+                <span className="text-[9px] font-black tracking-widest uppercase text-white/40">{t.importSanctuary}</span>
+              </label>
+              {library.length > 0 && (
+                <label className="flex items-center gap-2 text-[9px] text-white/30 cursor-pointer">
+                  <input type="checkbox" checked={includeFile} onChange={(e) => setIncludeFile(e.target.checked)} className="accent-[#a34a28]" />
+                  {t.includePdfInExport}
+                </label>
+              )}
+            </div>
           </section>
 
           <section>
@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Flashcard, Language, ReviewGrade, ReviewLog } from '../types';
+import { translations } from '../translations';
+import { StudyDeck, createLibraryId } from '../services/libraryStore';
+import { REVIEW_GRADES, appendReview, createFlashcard, endOfDay, isDueToday, scheduleReview, syncAxiomCards } from '../services/spacedRepetition';
+
+interface StudyModeProps {
+  lang: Language;
+  // مجموعة واحدة عند مراجعة المخطوط الحالي، أو المكتبة كلها لطابور اليوم
+  decks: StudyDeck[];
+  onSave: (deckId: string, flashcards: Flashcard[], reviewLog: ReviewLog[]) => void;
+  onClose: () => void;
+}
+
+interface QueueItem {
+  deckId: string;
+  cardId: string;
+}
+
+// بطاقة أُعيدت في الجلسة وتنتظر موعدها قبل أن تظهر من جديد
+type HeldItem = QueueItem & { due: number };
+
+// هامش يُطلق معه ما يحين خلال الثانية التالية، حتى لا يتأخر مؤقت عن موعده بفارق ضئيل
+const RELEASE_TOLERANCE_MS = 1000;
+
+const GRADE_STYLES: Record<ReviewGrade, string> = {
+  again: 'border-red-500/40 text-red-300 hover:bg-red-500/15',
+  hard: 'border-amber-500/40 text-amber-300 hover:bg-amber-500/15',
+  good: 'border-emerald-500/40 text-emerald-300 hover:bg-emerald-500/15',
+  easy: 'border-sky-500/40 text-sky-300 hover:bg-sky-500/15'
+};
+
+// فترة مختصرة تحت كل زر: 10m، 6d، 3mo...
+const formatInterval = (ms: number): string => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${Math.max(1, minutes)}m`;
+  const days = Math.round(ms / 86400000);
+  if (days < 1) return `${Math.round(minutes / 60)}h`;
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+const buildQueue = (cardsByDeck: Record<string, Flashcard[]>, now: number): QueueItem[] =>
+  Object.entries(cardsByDeck)
+    .flatMap(([deckId, cards]) => cards.filter(card => isDueToday(card, now)).map(card => ({ deckId, cardId: card.id, due: card.schedule.due })))
+    .sort((a, b) => a.due - b.due)
+    .map(({ deckId, cardId }) => ({ deckId, cardId }));
+
+const StudyMode: React.FC<StudyModeProps> = ({ lang, decks, onSave, onClose }) => {
+  const t = translations[lang];
+  const [cardsByDeck, setCardsByDeck] = useState<Record<string, Flashcard[]>>(() => {
+    const now = Date.now();
+    return Object.fromEntries(decks.map(deck => [deck.id, syncAxiomCards(deck.flashcards, deck.axioms, now, createLibraryId)]));
+  });
+  const [logsByDeck, setLogsByDeck] = useState<Record<string, ReviewLog[]>>(() => Object.fromEntries(decks.map(deck => [deck.id, deck.reviewLog])));
+  const [queue, setQueue] = useState<QueueItem[]>(() => buildQueue(cardsByDeck, Date.now()));
+  const [held, setHeld] = useState<HeldItem[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isAdding, setIsAdding] = useState(false);
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+
+  const deckNames = useMemo(() => Object.fromEntries(decks.map(deck => [deck.id, deck.metadata.title || deck.name.replace(/\.pdf$/i, '')])), [decks]);
+  const current = queue[0];
+  const card = current ? cardsByDeck[current.deckId]?.find(item => item.id === current.cardId) : undefined;
+  const canAddCards = decks.length === 1;
+
+  const nextDue = useMemo(() => {
+    const dues = Object.values(cardsByDeck).flat().map(item => item.schedule.due);
+    return dues.length > 0 ? Math.min(...dues) : null;
+  }, [cardsByDeck]);
+
+  const commit = (deckId: string, cards: Flashcard[], log: ReviewLog[]) => {
+    setCardsByDeck(prev => ({ ...prev, [deckId]: cards }));
+    setLogsByDeck(prev => ({ ...prev, [deckId]: log }));
+    onSave(deckId, cards, log);
+  };
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current || !card || !isRevealed) return;
+    const now = Date.now();
+    const schedule = scheduleReview(card.schedule, grade, now);
+    const cards = cardsByDeck[current.deckId].map(item => item.id === card.id ? { ...item, schedule } : item);
+    const log = appendReview(logsByDeck[current.deckId] || [], { cardId: card.id, grade, reviewedAt: now, interval: schedule.interval });
+    commit(current.deckId, cards, log);
+    setQueue(prev => prev.slice(1));
+    // البطاقة التي تعود قبل نهاية اليوم تُحجز حتى موعدها ولا تُعرض فوراً
+    if (schedule.due <= endOfDay(now)) setHeld(prev => [...prev, { ...current, due: schedule.due }]);
+    setReviewedCount(count => count + 1);
+    setIsRevealed(false);
+  };
+
+  useEffect(() => {
+    if (held.length === 0) return;
+    const wait = Math.max(0, Math.min(...held.map(item => item.due)) - Date.now());
+    const timer = setTimeout(() => {
+      const limit = Date.now() + RELEASE_TOLERANCE_MS;
+      setHeld(held.filter(item => item.due > limit));
+      setQueue(prev => [...prev, ...held.filter(item => item.due <= limit).map(({ deckId, cardId }) => ({ deckId, cardId }))]);
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [held]);
+
+  const handleAddCard = (e: React.FormEvent) => {
+    e.preventDefault();
+    const deck = decks[0];
+    if (!canAddCards || !front.trim() || !back.trim()) return;
+    const created = createFlashcard(createLibraryId(), front.trim(), back.trim(), Date.now());
+    commit(deck.id, [...cardsByDeck[deck.id], created], logsByDeck[deck.id] || []);
+    setQueue(prev => [...prev, { deckId: deck.id, cardId: created.id }]);
+    setFront('');
+    setBack('');
+    setIsAdding(false);
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === 'Escape') onClose();
+      else if (e.key === ' ' && card && !isRevealed) { e.preventDefault(); setIsRevealed(true); }
+      else if (isRevealed && ['1', '2', '3', '4'].includes(e.key)) handleGrade(REVIEW_GRADES[Number(e.key) - 1]);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  const now = Date.now();
+
+  return (
+    <div className="fixed inset-0 z-[80] bg-black/95 backdrop-blur-xl flex flex-col animate-in fade-in duration-300">
+      <header className="h-14 md:h-16 px-4 md:px-8 flex items-center justify-between border-b border-white/5 shrink-0">
+        <div className="min-w-0">
+          <h2 className="text-[10px] font-black tracking-[0.4em] uppercase text-white/60 truncate">
+            {canAddCards ? deckNames[decks[0].id] : t.dueToday}
+          </h2>
+          <p className="text-[9px] text-white/30 mt-0.5">{t.sessionProgress(reviewedCount, queue.length + held.length)}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {canAddCards && (
+            <button
+              onClick={() => setIsAdding(!isAdding)}
+              className={`px-3 py-2 rounded-xl border text-[9px] font-black tracking-widest uppercase transition-all ${isAdding ? 'bg-white border-white text-black' : 'bg-white/5 border-white/10 text-white/50 hover:text-white'}`}
+            >
+              {t.addCard}
+            </button>
+          )}
+          <button onClick={onClose} className="p-2 text-white/30 hover:text-white transition-colors text-xl">✕</button>
+        </div>
+      </header>
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center p-4 md:p-8 gap-6">
+        {isAdding && (
+          <form onSubmit={handleAddCard} className="w-full max-w-xl space-y-2 p-4 rounded-2xl bg-white/[0.03] border border-white/10">
+            <input
+              value={front}
+              onChange={(e) => setFront(e.target.value)}
+              placeholder={t.cardFront}
+              dir="auto"
+              autoFocus
+              className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder:text-white/20 outline-none focus:border-white/30"
+            />
+            <textarea
+              value={back}
+              onChange={(e) => setBack(e.target.value)}
+              placeholder={t.cardBack}
+              dir="auto"
+              rows={3}
+              className="w-full bg-black/40 border border-white/10 rounded-xl px-3 py-2 text-sm text-white placeholder:text-white/20 outline-none focus:border-white/30 resize-none"
+            />
+            <button
+              type="submit"
+              disabled={!front.trim() || !back.trim()}
+              className="w-full py-2 rounded-xl bg-[#a34a28] text-[10px] font-black tracking-widest uppercase disabled:opacity-30 hover:bg-orange-800 transition-all"
+            >
+              {t.saveCard}
+            </button>
+          </form>
+        )}
+
+        {card && current ? (
+          <div className="w-full max-w-xl flex flex-col gap-4">
+            <div className="glass rounded-[2rem] p-6 md:p-10 min-h-[300px] flex flex-col items-center justify-center text-center border-white/10 bg-white/[0.02] shadow-2xl">
+              {!canAddCards && (
+                <span className="text-[8px] font-black tracking-[0.4em] text-indigo-400/50 uppercase mb-4 truncate max-w-full">{deckNames[current.deckId]}</span>
+              )}
+              <h3 className="text-xl md:text-3xl font-black text-white leading-tight tracking-tight" dir="auto">{card.front}</h3>
+              {isRevealed && (
+                <div className="mt-6 pt-6 border-t border-white/10 w-full animate-in fade-in duration-300">
+                  <p className="text-white/90 font-serif text-base md:text-lg leading-relaxed italic" dir="auto">{card.back}</p>
+                  {card.note && <p className="mt-4 text-[11px] text-white/40 leading-relaxed" dir="auto">{card.note}</p>}
+                </div>
+              )}
+            </div>
+            {isRevealed ? (
+              <div className="grid grid-cols-4 gap-2">
+                {REVIEW_GRADES.map((grade, i) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    title={`${i + 1}`}
+                    className={`py-3 rounded-xl border bg-white/[0.02] transition-all ${GRADE_STYLES[grade]}`}
+                  >
+                    <span className="block text-[10px] font-black tracking-widest uppercase">{t.reviewGrades[grade]}</span>
+                    <span className="block text-[9px] opacity-60 mt-0.5" dir="ltr">{formatInterval(scheduleReview(card.schedule, grade, now).due - now)}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsRevealed(true)}
+                className="py-4 rounded-full bg-[#a34a28] font-black text-xs tracking-[0.4em] uppercase hover:bg-orange-800 transition-all active:scale-95"
+              >
+                {t.showAnswer}
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="text-center space-y-2">
+            <p className="text-lg md:text-2xl font-black tracking-widest uppercase text-white/80">{nextDue === null ? t.noCards : t.allCaughtUp}</p>
+            {nextDue !== null && (
+              <p className="text-[10px] text-white/30">
+                {t.nextReview(new Date(nextDue).toLocaleString(lang === 'ar' ? 'ar' : 'en', { dateStyle: 'medium', timeStyle: 'short' }))}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StudyMode;
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ChatThread, Language } from '../types';
+import { translations } from '../translations';
+import { ReportFormat } from '../services/studyReport';
+
+interface ThreadBarProps {
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  lang: Language;
+  onSelect: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  // تصدير المبحث النشط مع البديهيات
+  onExport?: (format: ReportFormat) => void;
+}
+
+const EXPORT_FORMATS: ReportFormat[] = ['markdown', 'html', 'print'];
+
+const ThreadBar: React.FC<ThreadBarProps> = ({ threads, activeThreadId, lang, onSelect, onCreate, onRename, onDelete, onExport }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [draftTitle, setDraftTitle] = useState('');
+  const t = translations[lang];
+
+  const titleOf = (thread: ChatThread, index: number) => thread.title || t.threadTitle(index + 1);
+
+  const startEditing = (thread: ChatThread, index: number) => {
+    setEditingId(thread.id);
+    setDraftTitle(titleOf(thread, index));
+  };
+
+  const commitEditing = () => {
+    if (editingId && draftTitle.trim()) onRename(editingId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  return (
+    <div className="flex items-center gap-2 px-3 md:px-6 py-2 border-b border-white/5 bg-black/40 shrink-0">
+      <div className="flex-1 min-w-0 flex items-center gap-2 overflow-x-auto scrollbar-none">
+        {threads.map((thread, i) => {
+          const isActive = thread.id === activeThreadId;
+          return (
+            <div
+              key={thread.id}
+              className={`group/thread flex items-center gap-1 shrink-0 rounded-full border px-3 py-1 transition-all ${isActive ? 'bg-[#a34a28]/20 border-[#a34a28]/50' : 'bg-white/[0.03] border-white/5 hover:bg-white/5'}`}
+            >
+              {editingId === thread.id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitEditing}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEditing();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="bg-transparent text-[10px] font-bold text-white outline-none w-28"
+                />
+              ) : (
+                <button
+                  onClick={() => onSelect(thread.id)}
+                  onDoubleClick={() => startEditing(thread, i)}
+                  title={t.renameThread}
+                  className={`text-[10px] font-bold tracking-wide max-w-[160px] truncate ${isActive ? 'text-white' : 'text-white/40'}`}
+                >
+                  {titleOf(thread, i)}
+                </button>
+              )}
+              {threads.length > 1 && editingId !== thread.id && (
+                <button
+                  onClick={() => onDelete(thread.id)}
+                  title={t.deleteThread}
+                  className="text-white/10 hover:text-red-500 transition-colors opacity-0 group-hover/thread:opacity-100"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              )}
+            </div>
+          );
+        })}
+        <button
+          onClick={onCreate}
+          title={t.newThread}
+          className="shrink-0 flex items-center gap-1 px-3 py-1 rounded-full border border-dashed border-white/10 text-white/30 hover:text-white hover:border-white/30 transition-all text-[10px] font-black uppercase tracking-widest"
+        >
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg>
+          <span className="hidden sm:inline">{t.newThread}</span>
+        </button>
+      </div>
+      {onExport && (
+        <div className="relative shrink-0">
+          <button
+            onClick={() => setIsExportOpen(open => !open)}
+            className={`flex items-center gap-1 px-3 py-1 rounded-full border transition-all text-[10px] font-black uppercase tracking-widest ${isExportOpen ? 'border-white/30 text-white' : 'border-white/10 text-white/30 hover:text-white'}`}
+          >
+            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M12 4v12m0 0l-4-4m4 4l4-4" /></svg>
+            <span className="hidden sm:inline">{t.exportDialogue}</span>
+          </button>
+          {isExportOpen && (
+            <div className="absolute top-full end-0 mt-2 z-30 min-w-[180px] py-1 bg-[#141414] border border-white/10 rounded-xl shadow-2xl">
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format}
+                  onClick={() => { setIsExportOpen(false); onExport(format); }}
+                  className="w-full px-4 py-2 text-start text-[10px] font-bold text-white/60 hover:text-white hover:bg-white/5 transition-colors"
+                >
+                  {format === 'markdown' ? t.exportMarkdown : format === 'html' ? t.exportHtml : t.printReport}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ThreadBar;
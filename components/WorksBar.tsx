@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Language } from '../types';
+import { translations } from '../translations';
+import { LibrarySummary } from '../services/libraryStore';
+
+interface WorksBarProps {
+  works: { id: string; work: number; name: string }[];
+  activeWork: number;
+  candidates: LibrarySummary[];
+  lang: Language;
+  isBusy: boolean;
+  onSelect: (work: number) => void;
+  onAddFromLibrary: (id: string) => void;
+  onUpload: (file: File) => void;
+  onRemove: (id: string) => void;
+}
+
+const WorksBar: React.FC<WorksBarProps> = ({ works, activeWork, candidates, lang, isBusy, onSelect, onAddFromLibrary, onUpload, onRemove }) => {
+  const [isPicking, setIsPicking] = useState(false);
+  const t = translations[lang];
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setIsPicking(false);
+    onUpload(file);
+  };
+
+  return (
+    <div className="relative flex items-center gap-2 px-3 md:px-6 py-2 border-b border-white/5 bg-black/60 shrink-0">
+      <div className="flex items-center gap-2 overflow-x-auto scrollbar-none">
+        {works.map((work, i) => {
+          const isActive = work.work === activeWork;
+          return (
+            <div
+              key={work.id}
+              className={`group/work flex items-center gap-1.5 shrink-0 rounded-full border px-3 py-1 transition-all ${isActive ? 'bg-white/10 border-white/30' : 'bg-white/[0.03] border-white/5 hover:bg-white/5'}`}
+            >
+              <button onClick={() => onSelect(work.work)} className="flex items-center gap-1.5" title={work.name}>
+                <span className="text-[9px] font-black text-orange-500">W{work.work}</span>
+                <span className={`text-[10px] font-bold max-w-[140px] truncate ${isActive ? 'text-white' : 'text-white/40'}`}>{work.name}</span>
+              </button>
+              {i > 0 && (
+                <button
+                  onClick={() => onRemove(work.id)}
+                  title={t.removeManuscript}
+                  className="text-white/10 hover:text-red-500 transition-colors opacity-0 group-hover/work:opacity-100"
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12" /></svg>
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <button
+        onClick={() => setIsPicking(!isPicking)}
+        disabled={isBusy}
+        title={t.addManuscript}
+        className="shrink-0 flex items-center gap-1 px-3 py-1 rounded-full border border-dashed border-white/10 text-white/30 hover:text-white hover:border-white/30 transition-all text-[10px] font-black uppercase tracking-widest disabled:opacity-30"
+      >
+        {isBusy ? (
+          <div className="w-3 h-3 border-2 border-white/10 border-t-white/60 rounded-full animate-spin"></div>
+        ) : (
+          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M12 4v16m8-8H4" /></svg>
+        )}
+        <span className="hidden sm:inline">{t.addManuscript}</span>
+      </button>
+
+      {isPicking && (
+        <div className={`absolute top-full mt-1 ${lang === 'ar' ? 'left-3' : 'right-3'} w-64 bg-[#0c0c0c] border border-white/10 rounded-2xl p-2 shadow-2xl z-[80]`}>
+          <label className="flex items-center gap-2 px-3 py-2 rounded-xl hover:bg-white/5 cursor-pointer text-[10px] font-black uppercase tracking-widest text-white/60">
+            <input type="file" className="hidden" accept="application/pdf" onChange={handleFile} />
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+            {t.uploadCompanion}
+          </label>
+          {candidates.length > 0 && (
+            <>
+              <p className="px-3 pt-3 pb-1 text-[8px] font-black tracking-[0.4em] text-white/20 uppercase">{t.fromLibrary}</p>
+              <div className="max-h-56 overflow-y-auto scrollbar-none">
+                {candidates.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => { setIsPicking(false); onAddFromLibrary(item.id); }}
+                    className="w-full text-start px-3 py-2 rounded-xl hover:bg-white/5 text-[11px] text-white/60 hover:text-white truncate"
+                  >
+                    {item.metadata.title || item.name}
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WorksBar;
@@ -0,0 +1,181 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, readFileSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { extname, join } from "node:path";
+import { createGroqProvider } from "../services/providers/groqProvider";
+import { ChatMessage } from "../services/llmProvider";
+import { estimateTokens } from "../shared/tokenEstimate";
+import { RequestPriority, createRateLimiter } from "./rateLimiter";
+import { resolveStaticPath } from "./staticFiles";
+import { statusForError, toAppError } from "../services/errors";
+
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+// حجز تقديري لرموز الرد عند حساب حصة الطلب من TPM
+const RESPONSE_TOKEN_ESTIMATE = 1500;
+const DIST_DIR = join(process.cwd(), "dist");
+const MIME_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript",
+  ".css": "text/css",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".ico": "image/x-icon"
+};
+
+// تحميل .env.local محلياً؛ على Render تأتي المتغيرات من البيئة مباشرة
+const loadLocalEnv = (file: string) => {
+  if (!existsSync(file)) return;
+  for (const line of readFileSync(file, "utf8").split(/\r?\n/)) {
+    const match = /^\s*([A-Z0-9_]+)\s*=\s*(.*)\s*$/.exec(line);
+    if (match && process.env[match[1]] === undefined) process.env[match[1]] = match[2].replace(/^["']|["']$/g, "");
+  }
+};
+loadLocalEnv(join(process.cwd(), ".env.local"));
+
+const provider = createGroqProvider();
+// الحدود الافتراضية لطبقة Groq المجانية؛ تُرفع عبر البيئة للحسابات المدفوعة
+const limiter = createRateLimiter({
+  requestsPerMinute: Number(process.env.RATE_LIMIT_RPM) || 30,
+  tokensPerMinute: Number(process.env.RATE_LIMIT_TPM) || 30000
+});
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readJsonBody = async (req: IncomingMessage): Promise<any> => {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "REQUEST_TOO_LARGE");
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new HttpError(400, "INVALID_JSON");
+  }
+};
+
+interface ChatRequest {
+  messages: ChatMessage[];
+  temperature?: number;
+  priority?: RequestPriority;
+}
+
+const parseChatRequest = (body: any): ChatRequest => {
+  const valid = Array.isArray(body?.messages) && body.messages.length > 0 && body.messages.every((m: any) =>
+    ["system", "user", "assistant"].includes(m?.role) && typeof m?.content === "string");
+  if (!valid) throw new HttpError(400, "INVALID_MESSAGES");
+  const temperature = typeof body.temperature === "number" ? body.temperature : undefined;
+  const priority = body.priority === "interactive" || body.priority === "background" ? body.priority : undefined;
+  return { messages: body.messages, temperature, priority };
+};
+
+const estimateRequestTokens = (messages: ChatMessage[]) =>
+  messages.reduce((sum, m) => sum + estimateTokens(m.content), 0) + RESPONSE_TOKEN_ESTIMATE;
+
+const sendJson = (res: ServerResponse, status: number, payload: object) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+};
+
+/**
+ * Aborts the upstream model call when the browser goes away, so a closed tab
+ * does not keep consuming the shared rate limit.
+ */
+const abortOnDisconnect = (req: IncomingMessage, res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on("close", () => { if (!res.writableFinished) controller.abort(); });
+  req.on("aborted", () => controller.abort());
+  return controller.signal;
+};
+
+const handleExtract = async (req: IncomingMessage, res: ServerResponse) => {
+  const { messages, temperature, priority = "background" } = parseChatRequest(await readJsonBody(req));
+  const signal = abortOnDisconnect(req, res);
+  const content = await limiter.schedule(
+    () => provider.completeJSON(messages, { temperature, signal }),
+    { priority, estimatedTokens: estimateRequestTokens(messages), signal }
+  );
+  sendJson(res, 200, { content });
+};
+
+const handleChat = async (req: IncomingMessage, res: ServerResponse) => {
+  const { messages, temperature, priority = "interactive" } = parseChatRequest(await readJsonBody(req));
+  const signal = abortOnDisconnect(req, res);
+  // نسحب أول قطعة داخل الطابور: إن رُفض الطلب (429) أعيدت المحاولة قبل فتح البث للمتصفح
+  const { iterator, first } = await limiter.schedule(async () => {
+    const iterator = provider.streamChat(messages, { temperature, signal })[Symbol.asyncIterator]();
+    return { iterator, first: await iterator.next() };
+  }, { priority, estimatedTokens: estimateRequestTokens(messages), signal });
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive"
+  });
+  try {
+    for (let step = first; !step.done; step = await iterator.next()) {
+      res.write(`data: ${JSON.stringify({ content: step.value })}\n\n`);
+    }
+  } catch (error: any) {
+    if (!signal.aborted) {
+      const appError = toAppError(error);
+      res.write(`data: ${JSON.stringify({ error: appError.message || "STREAM_FAILED", code: appError.code })}\n\n`);
+    }
+  }
+  res.end("data: [DONE]\n\n");
+};
+
+const serveStatic = async (req: IncomingMessage, res: ServerResponse) => {
+  const url = new URL(req.url || "/", "http://localhost");
+  const requested = resolveStaticPath(DIST_DIR, url.pathname);
+  if (!requested) {
+    sendJson(res, 404, { error: "NOT_FOUND" });
+    return;
+  }
+  const file = extname(requested) ? requested : join(DIST_DIR, "index.html");
+  try {
+    const data = await readFile(file);
+    res.writeHead(200, { "Content-Type": MIME_TYPES[extname(file)] || "application/octet-stream" });
+    res.end(data);
+  } catch {
+    sendJson(res, 404, { error: "NOT_FOUND" });
+  }
+};
+
+const handleQueue = async (_req: IncomingMessage, res: ServerResponse) => {
+  sendJson(res, 200, limiter.getState());
+};
+
+const routes: Record<string, (req: IncomingMessage, res: ServerResponse) => Promise<void>> = {
+  "POST /api/extract": handleExtract,
+  "POST /api/chat": handleChat,
+  "GET /api/queue": handleQueue
+};
+
+const server = createServer(async (req, res) => {
+  const path = (req.url || "/").split("?")[0];
+  const route = routes[`${req.method} ${path}`];
+  try {
+    if (route) await route(req, res);
+    else if (path.startsWith("/api/")) sendJson(res, 404, { error: "NOT_FOUND" });
+    else await serveStatic(req, res);
+  } catch (error: any) {
+    console.error(`Error in ${req.method} ${path}:`, error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    const appError = toAppError(error);
+    const status = error instanceof HttpError ? error.status : statusForError(appError);
+    sendJson(res, status, { error: appError.message || "SERVER_ERROR", code: appError.code });
+  }
+});
+
+const port = Number(process.env.PORT) || 8787;
+server.listen(port, () => console.log(`Knowledge AI server listening on :${port}`));
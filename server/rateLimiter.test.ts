@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createRateLimiter } from "./rateLimiter";
+
+const upstreamError = (status: number, headers: Record<string, string> = {}) =>
+  Object.assign(new Error(`Upstream ${status}`), { status, headers });
+
+describe("createRateLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("lets interactive requests jump ahead of queued background requests", async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1, tokensPerMinute: 100000 });
+    const order: string[] = [];
+    const run = (name: string, priority: "interactive" | "background") =>
+      limiter.schedule(async () => { order.push(name); }, { priority, estimatedTokens: 10 });
+
+    const all = Promise.all([run("extract-1", "background"), run("extract-2", "background"), run("chat", "interactive")]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(["extract-1"]);
+    expect(limiter.getState()).toMatchObject({ interactive: 1, background: 1 });
+
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(order).toEqual(["extract-1", "chat"]);
+    await vi.advanceTimersByTimeAsync(60000);
+    await all;
+    expect(order).toEqual(["extract-1", "chat", "extract-2"]);
+  });
+
+  it("pauses the whole queue for the retry-after of a 429", async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1000, tokensPerMinute: 100000 });
+    let attempts = 0;
+    const limited = limiter.schedule(async () => {
+      if (++attempts === 1) throw upstreamError(429, { "retry-after": "5" });
+      return "answer";
+    }, { priority: "interactive", estimatedTokens: 10 });
+    await vi.advanceTimersByTimeAsync(0);
+    expect(attempts).toBe(1);
+
+    let otherStarted = false;
+    const other = limiter.schedule(async () => { otherStarted = true; }, { priority: "background", estimatedTokens: 10 });
+    expect(limiter.getState().waitMs).toBe(5000);
+
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(attempts).toBe(1);
+    expect(otherStarted).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(limited).resolves.toBe("answer");
+    await other;
+    expect(attempts).toBe(2);
+    expect(otherStarted).toBe(true);
+  });
+
+  it("retries a 5xx with growing backoff, then gives up", async () => {
+    vi.spyOn(Math, "random").mockReturnValue(1);
+    const limiter = createRateLimiter({ requestsPerMinute: 1000, tokensPerMinute: 100000 });
+    const attemptedAt: number[] = [];
+    const failing = limiter.schedule(async () => {
+      attemptedAt.push(Date.now());
+      throw upstreamError(503);
+    }, { priority: "background", estimatedTokens: 10 });
+    const rejection = expect(failing).rejects.toMatchObject({ status: 503 });
+
+    await vi.runAllTimersAsync();
+    await rejection;
+    const delays = attemptedAt.slice(1).map((time, i) => time - attemptedAt[i]);
+    expect(delays).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  it("does not retry a request the provider refused as invalid", async () => {
+    const limiter = createRateLimiter({ requestsPerMinute: 1000, tokensPerMinute: 100000 });
+    let attempts = 0;
+    const refused = limiter.schedule(async () => {
+      attempts++;
+      throw upstreamError(400);
+    }, { priority: "interactive", estimatedTokens: 10 });
+    await expect(refused).rejects.toMatchObject({ status: 400 });
+    expect(attempts).toBe(1);
+  });
+});
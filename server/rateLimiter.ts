@@ -0,0 +1,169 @@
+import { QueueState } from "../services/llmProvider";
+
+// إدارة حدود الـ API (خلف الكواليس) — على الخادم لأن المفتاح واحد لكل الزوار
+
+/**
+ * `interactive` work (a reader waiting on a chat answer) always leaves the
+ * queue before `background` work such as section-by-section extraction.
+ */
+export type RequestPriority = "interactive" | "background";
+
+export interface RateLimits {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export interface ScheduleOptions {
+  priority: RequestPriority;
+  estimatedTokens: number;
+  signal?: AbortSignal;
+}
+
+interface PendingRequest {
+  priority: RequestPriority;
+  tokens: number;
+  start: () => void;
+}
+
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+/**
+ * دلو رموز يمتلئ بمعدل ثابت؛ الطلب الأكبر من سعة الدلو يُسمح له حين يمتلئ ويترك رصيداً سالباً
+ */
+const createBucket = (perMinute: number) => {
+  let level = perMinute;
+  let updatedAt = Date.now();
+  const refill = () => {
+    const now = Date.now();
+    level = Math.min(perMinute, level + ((now - updatedAt) * perMinute) / 60000);
+    updatedAt = now;
+  };
+  return {
+    // كم ملّي ثانية حتى يتسع الدلو لهذا الطلب
+    waitFor: (amount: number): number => {
+      refill();
+      const needed = Math.min(amount, perMinute) - level;
+      return needed <= 0 ? 0 : Math.ceil((needed * 60000) / perMinute);
+    },
+    take: (amount: number) => {
+      refill();
+      level -= amount;
+    }
+  };
+};
+
+const abortError = () => new DOMException("The request was aborted", "AbortError");
+
+/**
+ * Only rate limits and server-side failures are worth another attempt; a 4xx
+ * means the request itself is wrong.
+ */
+const isRetryable = (error: any): boolean => {
+  const status = error?.status;
+  return status === 429 || (typeof status === "number" && status >= 500);
+};
+
+const retryAfterMs = (error: any): number | null => {
+  const header = error?.headers?.["retry-after"];
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+// تراجع أسّي مع عشوائية كاملة حتى لا تعود الطلبات المرفوضة كلها في اللحظة نفسها
+const backoffDelay = (attempt: number) =>
+  Math.round(Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt));
+
+export const createRateLimiter = ({ requestsPerMinute, tokensPerMinute }: RateLimits) => {
+  const requests = createBucket(requestsPerMinute);
+  const tokens = createBucket(tokensPerMinute);
+  const queue: PendingRequest[] = [];
+  let running = 0;
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const nextWait = (request: PendingRequest) =>
+    Math.max(pausedUntil - Date.now(), requests.waitFor(1), tokens.waitFor(request.tokens));
+
+  const pump = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    while (queue.length > 0) {
+      const wait = nextWait(queue[0]);
+      if (wait > 0) {
+        timer = setTimeout(pump, wait);
+        return;
+      }
+      const request = queue.shift()!;
+      requests.take(1);
+      tokens.take(request.tokens);
+      request.start();
+    }
+  };
+
+  const enqueue = (request: PendingRequest, atFront: boolean) => {
+    // ترتيب ثابت داخل كل أولوية؛ الطلب المُعاد بعد رفض يعود إلى رأس أولويته
+    const firstBackground = queue.findIndex(q => q.priority === "background");
+    const index = request.priority === "interactive" ? (atFront ? 0 : firstBackground) : (atFront ? firstBackground : -1);
+    if (index === -1) queue.push(request);
+    else queue.splice(index, 0, request);
+    pump();
+  };
+
+  const acquire = ({ priority, estimatedTokens, signal }: ScheduleOptions, atFront: boolean) =>
+    new Promise<void>((resolve, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      const request: PendingRequest = {
+        priority,
+        tokens: estimatedTokens,
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        }
+      };
+      const onAbort = () => {
+        const index = queue.indexOf(request);
+        if (index !== -1) queue.splice(index, 1);
+        reject(abortError());
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+      enqueue(request, atFront);
+    });
+
+  /**
+   * Runs `task` once the buckets allow it. A 429 or 5xx pauses the whole
+   * queue for the provider's `retry-after` (or a jittered backoff) and puts
+   * the task back at the head of its priority.
+   */
+  const schedule = async <T>(task: () => Promise<T>, options: ScheduleOptions): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      await acquire(options, attempt > 0);
+      running++;
+      try {
+        return await task();
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= MAX_RETRIES || options.signal?.aborted) throw error;
+        const delay = retryAfterMs(error) ?? backoffDelay(attempt);
+        console.warn(`Upstream ${(error as any).status}, retrying in ${delay} ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+        pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+      } finally {
+        running--;
+      }
+    }
+  };
+
+  const getState = (): QueueState => ({
+    interactive: queue.filter(q => q.priority === "interactive").length,
+    background: queue.filter(q => q.priority === "background").length,
+    running,
+    waitMs: queue.length > 0 ? Math.max(0, nextWait(queue[0])) : Math.max(0, pausedUntil - Date.now())
+  });
+
+  return { schedule, getState };
+};
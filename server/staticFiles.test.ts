@@ -0,0 +1,26 @@
+import { join, resolve } from "node:path";
+import { describe, expect, it } from "vitest";
+import { resolveStaticPath } from "./staticFiles";
+
+const DIST_DIR = resolve("/srv/app/dist");
+
+describe("resolveStaticPath", () => {
+  it("maps asset paths into the build directory", () => {
+    expect(resolveStaticPath(DIST_DIR, "/assets/index.js")).toBe(join(DIST_DIR, "assets", "index.js"));
+    expect(resolveStaticPath(DIST_DIR, "/assets/%D9%83%D8%AA%D8%A7%D8%A8.png")).toBe(join(DIST_DIR, "assets", "كتاب.png"));
+  });
+
+  it("refuses encoded .. segments that reach a sibling directory", () => {
+    expect(resolveStaticPath(DIST_DIR, "/..%2Fdist-server%2Findex.js")).toBeNull();
+    expect(resolveStaticPath(DIST_DIR, "/assets/%2E%2E%2F%2E%2E%2Fdist-server/index.js")).toBeNull();
+    expect(resolveStaticPath(DIST_DIR, "/%2e%2e/%2e%2e/package.json")).toBeNull();
+  });
+
+  it("keeps .. segments that stay inside the build directory", () => {
+    expect(resolveStaticPath(DIST_DIR, "/assets/..%2Findex.html")).toBe(join(DIST_DIR, "index.html"));
+  });
+
+  it("refuses paths that cannot be decoded", () => {
+    expect(resolveStaticPath(DIST_DIR, "/%E0%A4%A")).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+import { isAbsolute, relative, resolve, sep } from "node:path";
+
+/**
+ * Resolves a request path against the build directory. Returns null when the
+ * decoded path escapes it (encoded `..` segments included) or cannot be decoded.
+ */
+export const resolveStaticPath = (rootDir: string, pathname: string): string | null => {
+  let decoded: string;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    return null;
+  }
+  const root = resolve(rootDir);
+  // المسار يُحلّ نسبةً إلى مجلد البناء دائماً، ثم يُرفض ما خرج منه ولو إلى مجلد شقيق مثل dist-server
+  const requested = resolve(root, `.${sep}${decoded}`);
+  const rel = relative(root, requested);
+  return rel.startsWith("..") || isAbsolute(rel) ? null : requested;
+};
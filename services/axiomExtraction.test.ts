@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ExtractionProgress, ManuscriptPage } from "../types";
+import { extractFromPages } from "./axiomExtraction";
+import { setLLMProvider } from "./llmProvider";
+import { ScriptedProvider, createScriptedProvider } from "./providers/mockProvider";
+
+const pages: ManuscriptPage[] = [
+  { page: 1, text: "Habits form through repetition. Every small action is a vote for the person you wish to become." },
+  { page: 2, text: "Environment shapes behaviour more than motivation does. Make good cues obvious and bad cues invisible." }
+];
+
+const axiomsReply = JSON.stringify({
+  axioms: Array.from({ length: 13 }, (_, i) => ({
+    term: `Principle ${i + 1}`,
+    definition: `Definition of principle ${i + 1}`,
+    significance: `Why principle ${i + 1} matters`,
+    evidence: i === 0
+      ? [{ quote: "Make good cues obvious and bad cues invisible.", page: 9 }, { quote: "A sentence the book never says.", page: 1 }]
+      : []
+  })),
+  snippets: ["Every small action is a vote for the person you wish to become."],
+  metadata: { title: "Habits", author: "Anon", chapters: "1. Repetition 2. Environment" }
+});
+
+const shortReply = JSON.stringify({
+  axioms: [1, 2].map(i => ({ term: `Principle ${i}`, definition: `Definition ${i}`, significance: `Significance ${i}`, evidence: [] })),
+  snippets: ["Habits form through repetition."],
+  metadata: { title: "Habits" }
+});
+
+// كتاب بطول عادي في قسم واحد: نحو ألف وخمسمئة كلمة دالة
+const bookPages: ManuscriptPage[] = Array.from({ length: 10 }, (_, i) => ({
+  page: i + 1,
+  text: "Knowledge grows through patient study of evidence, careful reasoning about principles and honest revision. ".repeat(15)
+}));
+
+describe("extractFromPages", () => {
+  let provider: ScriptedProvider;
+
+  beforeEach(() => {
+    provider = createScriptedProvider({ completions: ["not json", axiomsReply, JSON.stringify({ relations: [] })] });
+    setLLMProvider(provider);
+  });
+
+  it("repairs an invalid reply and grounds the evidence in the pages", async () => {
+    const stages: ExtractionProgress["stage"][] = [];
+    const result = await extractFromPages(pages, "system", event => stages.push(event.stage));
+
+    expect(provider.calls).toHaveLength(3);
+    expect(provider.calls[1].messages.at(-1)?.content).toContain("did not match the required JSON structure");
+    expect(result.axioms).toHaveLength(13);
+    expect(result.axioms[0].evidence).toEqual([{ quote: "Make good cues obvious and bad cues invisible.", page: 2 }]);
+    expect(result.metadata.title).toBe("Habits");
+    expect(result.relations).toEqual([]);
+    expect(stages).toContain("relating");
+  });
+
+  it("asks for a repair when a normal-length book returns too few axioms", async () => {
+    provider = createScriptedProvider({ completions: [shortReply, axiomsReply, JSON.stringify({ relations: [] })] });
+    setLLMProvider(provider);
+    const result = await extractFromPages(bookPages, "system");
+
+    expect(provider.calls[1].messages.at(-1)?.content).toContain("expected at least 13");
+    expect(result.axioms).toHaveLength(13);
+  });
+
+  it("accepts fewer axioms from a measurably short source", async () => {
+    provider = createScriptedProvider({ completions: [shortReply, JSON.stringify({ relations: [] })] });
+    setLLMProvider(provider);
+    const result = await extractFromPages(pages, "system");
+
+    expect(provider.calls).toHaveLength(2);
+    expect(result.axioms).toHaveLength(2);
+  });
+});
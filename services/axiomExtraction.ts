@@ -0,0 +1,284 @@
+import { Axiom, AxiomEvidence, AxiomRelation, ManuscriptMetadata, ManuscriptPage, ProgressHandler } from "../types";
+import { ChatMessage, getLLMProvider } from "./llmProvider";
+import { InvalidPdfError, ParseFailureError } from "./errors";
+import { tokenize } from "./textNormalizer";
+import { createQuoteIndex } from "./quoteVerifier";
+import { extractRelations } from "./axiomRelations";
+import { ExtractionResult, ExtractionSchema, ExtractionSchemaError, SchemaIssue, detectScript, validateExtraction } from "./extractionSchema";
+
+const PAGE_SEPARATOR = "\n\n";
+const MAX_EXTRACTION_CHARS = 60000;
+const SECTION_CHARS = 24000;
+const MAX_SECTIONS = 16;
+const FINAL_AXIOM_COUNT = 13;
+const FINAL_SNIPPET_COUNT = 10;
+const AXIOMS_PER_SECTION = 8;
+const SNIPPETS_PER_SECTION = 5;
+// مصطلحان متقاربان إلى هذا الحد يُعدّان البديهية نفسها
+const DUPLICATE_TERM_OVERLAP = 0.6;
+const MAX_EVIDENCE = 3;
+// المحاولة الأولى ثم طلبا إصلاح على الأكثر
+const MAX_EXTRACTION_ATTEMPTS = 3;
+// نص دون هذا العدد من الكلمات الدالة لكل بديهية يُعدّ قصيراً فيُقبل منه أقل من ثلاث عشرة
+const CONTENT_WORDS_PER_AXIOM = 100;
+
+const tagPage = (p: ManuscriptPage) => `[Page ${p.page}]\n${p.text}`;
+
+/**
+ * Builds the excerpt the model sees during extraction. Pages are tagged so the
+ * model can orient itself; long books are sampled evenly instead of cut off.
+ */
+const buildExtractionExcerpt = (pages: ManuscriptPage[], maxChars: number = MAX_EXTRACTION_CHARS): string => {
+  const tagged = pages.filter(p => p.text.length > 0).map(tagPage);
+  const total = tagged.reduce((sum, t) => sum + t.length, 0);
+  if (total <= maxChars) return tagged.join(PAGE_SEPARATOR);
+  const slots = Math.min(tagged.length, Math.floor(maxChars / 400));
+  const stride = Math.ceil(tagged.length / slots);
+  const sampled = tagged.filter((_, i) => i % stride === 0);
+  const perPage = Math.floor(maxChars / sampled.length);
+  return sampled.map(t => t.substring(0, perPage)).join(PAGE_SEPARATOR);
+};
+
+/**
+ * Groups consecutive pages into sections of roughly equal size. Very long
+ * books get wider sections rather than more of them; a section that is still
+ * too wide is sampled by `buildExtractionExcerpt`.
+ */
+const splitIntoSections = (pages: ManuscriptPage[]): ManuscriptPage[][] => {
+  const textPages = pages.filter(p => p.text.trim().length > 0);
+  const total = textPages.reduce((sum, p) => sum + tagPage(p).length, 0);
+  const sectionChars = Math.min(MAX_EXTRACTION_CHARS, Math.max(SECTION_CHARS, Math.ceil(total / MAX_SECTIONS)));
+  const sections: ManuscriptPage[][] = [];
+  let current: ManuscriptPage[] = [];
+  let size = 0;
+  for (const page of textPages) {
+    const cost = tagPage(page).length;
+    if (current.length > 0 && size + cost > sectionChars) {
+      sections.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(page);
+    size += cost;
+  }
+  if (current.length > 0) sections.push(current);
+  return sections;
+};
+
+const RESULT_SHAPE = `Return ONLY JSON with this structure:
+{
+  "axioms": [{ "term": "...", "definition": "...", "significance": "...", "evidence": [{ "quote": "...", "page": 0 }] }],
+  "snippets": ["..."],
+  "metadata": { "title": "...", "author": "...", "chapters": "..." }
+}`;
+
+const EVIDENCE_RULE = `For every axiom, give 1 or 2 supporting passages as "evidence": each quote copied VERBATIM from the text (one or two sentences), with the page number from its [Page N] tag.`;
+
+const WHOLE_BOOK_PROMPT = (excerpt: string) => `1. Extract exactly ${FINAL_AXIOM_COUNT} high-quality 'Knowledge Axioms' from this manuscript.
+2. Extract ${FINAL_SNIPPET_COUNT} short, profound, and useful snippets or quotes DIRECTLY from the text (verbatim).
+3. Identify the Title, Author, and a brief list of Chapters/Structure.
+${EVIDENCE_RULE}
+IMPORTANT: The 'axioms', 'snippets', and 'metadata' MUST be in the SAME LANGUAGE as the PDF manuscript itself.
+${RESULT_SHAPE}
+MANUSCRIPT TEXT:
+${excerpt}`;
+
+const SECTION_PROMPT = (excerpt: string, index: number, count: number) => `This is SECTION ${index + 1} OF ${count} of a longer manuscript.
+1. Extract up to ${AXIOMS_PER_SECTION} candidate 'Knowledge Axioms' that this section establishes or develops.
+2. Extract up to ${SNIPPETS_PER_SECTION} short, profound snippets DIRECTLY from this section (verbatim).
+3. If this section shows the Title, Author, or the table of contents, report them; otherwise leave them empty.
+${EVIDENCE_RULE}
+IMPORTANT: Everything MUST be in the SAME LANGUAGE as the manuscript itself.
+${RESULT_SHAPE}
+SECTION TEXT:
+${excerpt}`;
+
+const describeEvidence = (axiom: Axiom) =>
+  (axiom.evidence || []).map(e => `\n   evidence: "${e.quote}" (page ${e.page})`).join("");
+
+const MERGE_PROMPT = (candidates: Axiom[], snippets: string[], metadata: ManuscriptMetadata) => `Below are candidate axioms and snippets extracted section by section from ONE manuscript.
+1. Merge candidates that express the same idea, and rank them by how central they are to the whole work.
+2. Return exactly ${FINAL_AXIOM_COUNT} axioms (fewer only if there are not enough distinct candidates). Keep the manuscript's language.
+3. Choose the ${FINAL_SNIPPET_COUNT} most profound snippets, copied character for character from the list.
+4. Give the Title, Author, and a brief list of Chapters/Structure of the whole work.
+5. Keep the evidence of the candidates you merge, copying each quote and page exactly as listed.
+${RESULT_SHAPE}
+CANDIDATE AXIOMS:
+${candidates.map((a, i) => `${i + 1}. ${a.term}: ${a.definition} (${a.significance})${describeEvidence(a)}`).join("\n")}
+CANDIDATE SNIPPETS:
+${snippets.map(s => `- ${s}`).join("\n")}
+METADATA SEEN IN THE SECTIONS:
+${JSON.stringify(metadata)}`;
+
+const REPAIR_PROMPT = (issues: SchemaIssue[]) => `Your previous reply did not match the required JSON structure:
+${issues.map(i => `- ${i.path} ${i.message}`).join("\n")}
+Return the corrected JSON ONLY, with the same structure and every field filled in. Keep the manuscript's language.`;
+
+/**
+ * The fewest axioms a one-request extraction may return. Only a measurably
+ * short source is allowed fewer than `FINAL_AXIOM_COUNT`.
+ */
+const minimumAxiomCount = (pages: ManuscriptPage[]): number => {
+  const words = pages.reduce((sum, p) => sum + tokenize(p.text).length, 0);
+  return Math.max(1, Math.min(FINAL_AXIOM_COUNT, Math.floor(words / CONTENT_WORDS_PER_AXIOM)));
+};
+
+const termOverlap = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(term => { if (b.has(term)) shared++; });
+  return shared / Math.min(a.size, b.size);
+};
+
+/**
+ * دمج محلي للمرشحات: تُجمع البديهيات المتشابهة في المصطلح، وتُرتب بعدد الأقسام التي ذكرتها
+ * ثم بترتيب ظهورها الأول. يُستخدم أيضاً كبديل عند فشل خطوة الدمج بالنموذج
+ */
+const mergeCandidates = (sections: ExtractionResult[]) => {
+  const groups: Array<{ axiom: Axiom; terms: Set<string>; sections: Set<number>; order: number }> = [];
+  sections.forEach((section, sectionIndex) => {
+    section.axioms.forEach(axiom => {
+      const terms = new Set(tokenize(axiom.term));
+      const match = groups.find(g => termOverlap(g.terms, terms) >= DUPLICATE_TERM_OVERLAP);
+      if (match) {
+        match.sections.add(sectionIndex);
+        const evidence = [...(match.axiom.evidence || []), ...(axiom.evidence || [])].slice(0, MAX_EVIDENCE);
+        match.axiom = { ...(axiom.definition.length > match.axiom.definition.length ? axiom : match.axiom), evidence };
+      } else {
+        groups.push({ axiom, terms, sections: new Set([sectionIndex]), order: groups.length });
+      }
+    });
+  });
+  const axioms = groups
+    .sort((a, b) => b.sections.size - a.sections.size || a.order - b.order)
+    .map(g => g.axiom);
+  const snippets = Array.from(new Set(sections.flatMap(s => s.snippets.map(snippet => snippet.trim()))));
+  const metadata = sections.reduce<ManuscriptMetadata>((merged, s) => ({ ...s.metadata, ...merged }), {});
+  return { axioms, snippets, metadata };
+};
+
+/**
+ * Sends one extraction prompt and validates the reply against `schema`. An
+ * invalid reply is sent back with the list of problems for repair, up to
+ * `MAX_EXTRACTION_ATTEMPTS` in total; the last schema error is then thrown.
+ */
+const completeExtraction = async (system: string, prompt: string, schema: ExtractionSchema): Promise<ExtractionResult> => {
+  const messages: ChatMessage[] = [
+    { role: "system", content: system },
+    { role: "user", content: prompt }
+  ];
+  let lastError: ExtractionSchemaError | null = null;
+  for (let attempt = 1; attempt <= MAX_EXTRACTION_ATTEMPTS; attempt++) {
+    const raw = await getLLMProvider().completeJSON(messages, { temperature: 0.2 });
+    try {
+      return validateExtraction(raw, schema);
+    } catch (error) {
+      if (!(error instanceof ExtractionSchemaError)) throw error;
+      console.warn(`Extraction attempt ${attempt}/${MAX_EXTRACTION_ATTEMPTS} rejected:`, error.issues);
+      lastError = error;
+      messages.push({ role: "assistant", content: raw }, { role: "user", content: REPAIR_PROMPT(error.issues) });
+    }
+  }
+  throw lastError;
+};
+
+/**
+ * Map-reduce extraction. Short manuscripts go out in one request as before;
+ * longer ones are read section by section, then the candidates are merged and
+ * ranked into the final axioms. A failed section is skipped, and a failed merge
+ * falls back to local ranking, so one bad response never loses the whole book.
+ */
+const runExtraction = async (pages: ManuscriptPage[], system: string, onProgress?: ProgressHandler): Promise<ExtractionResult> => {
+  const sections = splitIntoSections(pages);
+  if (sections.length === 0) throw new InvalidPdfError("PDF_NO_TEXT_LAYER");
+  onProgress?.({ stage: "analyzing", done: 0, total: sections.length });
+  if (sections.length === 1) {
+    const excerpt = buildExtractionExcerpt(sections[0]);
+    const result = await completeExtraction(system, WHOLE_BOOK_PROMPT(excerpt), {
+      axioms: { min: minimumAxiomCount(sections[0]), max: FINAL_AXIOM_COUNT },
+      snippets: { min: 1, max: FINAL_SNIPPET_COUNT },
+      script: detectScript(excerpt)
+    });
+    onProgress?.({ stage: "analyzing", done: 1, total: 1 });
+    return result;
+  }
+
+  const results: ExtractionResult[] = [];
+  let firstError: unknown = null;
+  for (let i = 0; i < sections.length; i++) {
+    try {
+      const excerpt = buildExtractionExcerpt(sections[i]);
+      results.push(await completeExtraction(system, SECTION_PROMPT(excerpt, i, sections.length), {
+        axioms: { min: 1, max: AXIOMS_PER_SECTION },
+        snippets: { min: 0, max: SNIPPETS_PER_SECTION },
+        script: detectScript(excerpt)
+      }));
+    } catch (error) {
+      console.error(`Section ${i + 1}/${sections.length} extraction failed:`, error);
+      firstError = firstError ?? error;
+    }
+    onProgress?.({ stage: "analyzing", done: i + 1, total: sections.length });
+  }
+  if (results.length === 0) throw firstError;
+
+  const merged = mergeCandidates(results);
+  if (merged.axioms.length === 0) throw new ParseFailureError("EMPTY_RESULT");
+  onProgress?.({ stage: "merging" });
+  try {
+    const ranked = await completeExtraction(system, MERGE_PROMPT(merged.axioms, merged.snippets, merged.metadata), {
+      axioms: { min: Math.min(FINAL_AXIOM_COUNT, merged.axioms.length), max: FINAL_AXIOM_COUNT },
+      snippets: { min: 0, max: FINAL_SNIPPET_COUNT },
+      script: detectScript(merged.axioms.map(a => `${a.term} ${a.definition}`).join(" "))
+    });
+    return {
+      axioms: ranked.axioms,
+      snippets: ranked.snippets.length > 0 ? ranked.snippets : merged.snippets.slice(0, FINAL_SNIPPET_COUNT),
+      metadata: { ...merged.metadata, ...ranked.metadata }
+    };
+  } catch (error) {
+    console.error("Axiom merge failed, keeping locally ranked candidates:", error);
+    return {
+      axioms: merged.axioms.slice(0, FINAL_AXIOM_COUNT),
+      snippets: merged.snippets.slice(0, FINAL_SNIPPET_COUNT),
+      metadata: merged.metadata
+    };
+  }
+};
+
+/**
+ * يُبقي من شواهد كل بديهية ما وُجد فعلاً في النص المستخرج، بصفحته الحقيقية لا بما ادعاه النموذج
+ */
+const groundEvidence = (axioms: Axiom[], pages: ManuscriptPage[]): Axiom[] => {
+  const index = createQuoteIndex(pages);
+  return axioms.map(axiom => {
+    const evidence: AxiomEvidence[] = [];
+    for (const { quote } of axiom.evidence || []) {
+      const location = index.locate(quote);
+      if (location && !evidence.some(e => e.quote === quote)) evidence.push({ quote, page: location.page });
+    }
+    return { ...axiom, evidence: evidence.slice(0, MAX_EVIDENCE) };
+  });
+};
+
+/**
+ * Maps the typed relations between final axioms over the same sampled text
+ * that whole-book extraction reads.
+ */
+export const relateAxioms = (axioms: Axiom[], pages: ManuscriptPage[], system: string): Promise<AxiomRelation[]> =>
+  extractRelations(axioms, pages, buildExtractionExcerpt(pages), system);
+
+export const extractFromPages = async (
+  pages: ManuscriptPage[],
+  system: string,
+  onProgress?: ProgressHandler
+): Promise<ExtractionResult & { relations?: AxiomRelation[] }> => {
+  const result = await runExtraction(pages, system, onProgress);
+  const axioms = groundEvidence(result.axioms, pages);
+  onProgress?.({ stage: "relating" });
+  // العلاقات إضافة: فشلها لا يُضيّع البديهيات، وتبقى غير مرسومة ليمكن رسمها لاحقاً من واجهة الخريطة
+  const relations = await relateAxioms(axioms, pages, system).catch(error => {
+    console.error("Relation mapping failed, continuing without relations:", error);
+    return undefined;
+  });
+  return { ...result, axioms, relations };
+};
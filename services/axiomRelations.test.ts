@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { Axiom, ManuscriptPage } from "../types";
+import { extractRelations } from "./axiomRelations";
+import { setLLMProvider } from "./llmProvider";
+import { ScriptedProvider, createScriptedProvider } from "./providers/mockProvider";
+import { ParseFailureError } from "./errors";
+
+const pages: ManuscriptPage[] = [
+  { page: 1, text: "Discipline grows out of small daily habits." },
+  { page: 2, text: "Freedom is only possible for those who have mastered discipline." }
+];
+
+const axioms: Axiom[] = ["Habit", "Discipline", "Freedom"].map(term => ({ term, definition: `${term} defined`, significance: "", evidence: [] }));
+
+const relationsFrom = (...replies: unknown[]): { provider: ScriptedProvider; run: ReturnType<typeof extractRelations> } => {
+  const provider = createScriptedProvider({ completions: replies.map(reply => typeof reply === "string" ? reply : JSON.stringify(reply)) });
+  setLLMProvider(provider);
+  return { provider, run: extractRelations(axioms, pages, "excerpt", "system") };
+};
+
+const leadsTo = {
+  from: 1,
+  to: 2,
+  type: "leads_to",
+  explanation: "Habits build discipline.",
+  evidence: [{ quote: "Discipline grows out of small daily habits.", page: 7 }]
+};
+
+describe("extractRelations", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("turns axiom numbers into indices and grounds evidence on its real page", async () => {
+    const { run } = relationsFrom({ relations: [leadsTo] });
+    expect(await run).toEqual([{ from: 0, to: 1, type: "leads_to", explanation: "Habits build discipline.", evidence: [{ quote: leadsTo.evidence[0].quote, page: 1 }] }]);
+  });
+
+  it("drops out-of-range, self-referencing, untyped, duplicate and malformed relations", async () => {
+    const { run } = relationsFrom({
+      relations: [
+        { ...leadsTo, from: 0 },
+        { ...leadsTo, to: 4 },
+        { ...leadsTo, to: 1 },
+        { ...leadsTo, from: "two" },
+        { ...leadsTo, type: "causes" },
+        null,
+        leadsTo,
+        leadsTo,
+        { ...leadsTo, from: 3, to: 2, type: "depends_on", evidence: [{ quote: "Freedom is only possible for those who have mastered discipline.", page: 2 }] }
+      ]
+    });
+    expect((await run).map(({ from, to, type }) => ({ from, to, type }))).toEqual([
+      { from: 0, to: 1, type: "leads_to" },
+      { from: 2, to: 1, type: "depends_on" }
+    ]);
+  });
+
+  it("drops quotes the text does not contain, and relations left without evidence", async () => {
+    const { run } = relationsFrom({
+      relations: [
+        { ...leadsTo, evidence: [{ quote: "Discipline grows out of small daily habits.", page: 1 }, { quote: "Habits are chains we forge in youth.", page: 1 }] },
+        { ...leadsTo, from: 2, to: 3, evidence: [{ quote: "Freedom means doing whatever one wishes at any moment.", page: 2 }] },
+        { ...leadsTo, from: 3, to: 1, evidence: "none" }
+      ]
+    });
+    const relations = await run;
+    expect(relations).toHaveLength(1);
+    expect(relations[0].evidence).toEqual([{ quote: "Discipline grows out of small daily habits.", page: 1 }]);
+  });
+
+  it("asks for a repair when the reply is not a relation list, then gives up", async () => {
+    const { provider, run } = relationsFrom({ links: [] }, "not json");
+    await expect(run).rejects.toBeInstanceOf(ParseFailureError);
+    expect(provider.calls).toHaveLength(2);
+    // الرسائل مصفوفة واحدة تتراكم عبر المحاولات: [3] هو طلب الإصلاح الأول
+    expect(provider.calls[1].messages[3].content).toContain("relations must be an array");
+  });
+
+  it("needs at least two axioms to relate", async () => {
+    const provider = createScriptedProvider({});
+    setLLMProvider(provider);
+    expect(await extractRelations(axioms.slice(0, 1), pages, "excerpt", "system")).toEqual([]);
+    expect(provider.calls).toHaveLength(0);
+  });
+});
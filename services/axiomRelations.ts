@@ -0,0 +1,100 @@
+import { Axiom, AxiomEvidence, AxiomRelation, AxiomRelationType, ManuscriptPage } from "../types";
+import { ChatMessage, getLLMProvider } from "./llmProvider";
+import { createQuoteIndex } from "./quoteVerifier";
+import { ParseFailureError } from "./errors";
+import { SchemaIssue } from "./extractionSchema";
+
+export const RELATION_TYPES: AxiomRelationType[] = ["depends_on", "contradicts", "exemplifies", "leads_to"];
+const MAX_RELATIONS = 24;
+const MAX_RELATION_EVIDENCE = 2;
+// المحاولة الأولى ثم طلب إصلاح واحد
+const MAX_RELATION_ATTEMPTS = 2;
+
+const RELATIONS_PROMPT = (axioms: Axiom[], excerpt: string) => `Below are the numbered Knowledge Axioms of ONE manuscript, followed by its text.
+Identify the important relations BETWEEN these axioms, using only these types:
+- "depends_on": axiom "from" presupposes or builds on axiom "to"
+- "contradicts": "from" is in tension with or opposes "to"
+- "exemplifies": "from" is a concrete instance or illustration of "to"
+- "leads_to": "from" causes, implies or results in "to"
+Rules:
+- "from" and "to" are axiom numbers; never relate an axiom to itself.
+- Keep only relations the text itself supports, at most ${MAX_RELATIONS}. Fewer is fine.
+- Give each a one-sentence "explanation" in the manuscript's language, and 1 or 2 "evidence" quotes copied VERBATIM from the text, with the page number from its [Page N] tag.
+Return ONLY JSON with this structure:
+{ "relations": [{ "from": 1, "to": 2, "type": "depends_on", "explanation": "...", "evidence": [{ "quote": "...", "page": 0 }] }] }
+AXIOMS:
+${axioms.map((axiom, i) => `${i + 1}. ${axiom.term}: ${axiom.definition}`).join("\n")}
+MANUSCRIPT TEXT:
+${excerpt}`;
+
+const REPAIR_PROMPT = (issues: SchemaIssue[]) => `Your previous reply did not match the required JSON structure:
+${issues.map(i => `- ${i.path} ${i.message}`).join("\n")}
+Return the corrected JSON ONLY, with the same structure.`;
+
+/**
+ * Validates the model's relations and grounds their evidence in the text.
+ * Quotes that cannot be found are dropped, and so is any relation left with
+ * no evidence: an edge on the graph must always have a passage behind it.
+ */
+const readRelations = (raw: string, axiomCount: number, pages: ManuscriptPage[], issues: SchemaIssue[]): AxiomRelation[] | null => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    issues.push({ path: "$", message: `is not valid JSON (${(error as Error).message})` });
+    return null;
+  }
+  if (!Array.isArray(data?.relations)) {
+    issues.push({ path: "relations", message: "must be an array" });
+    return null;
+  }
+  const index = createQuoteIndex(pages);
+  const relations: AxiomRelation[] = [];
+  data.relations.forEach((item: any, i: number) => {
+    const from = Number(item?.from) - 1;
+    const to = Number(item?.to) - 1;
+    const isAxiom = (n: number) => Number.isInteger(n) && n >= 0 && n < axiomCount;
+    if (!isAxiom(from) || !isAxiom(to) || from === to || !RELATION_TYPES.includes(item.type)) {
+      issues.push({ path: `relations[${i}]`, message: `must link two different axioms (1 to ${axiomCount}) with a known type` });
+      return;
+    }
+    if (relations.some(r => r.from === from && r.to === to && r.type === item.type)) return;
+    const evidence: AxiomEvidence[] = [];
+    for (const entry of Array.isArray(item.evidence) ? item.evidence : []) {
+      const quote = typeof entry?.quote === "string" ? entry.quote.trim() : "";
+      const location = quote ? index.locate(quote) : null;
+      if (location && !evidence.some(e => e.quote === quote)) evidence.push({ quote, page: location.page });
+    }
+    if (evidence.length === 0) return;
+    relations.push({
+      from,
+      to,
+      type: item.type,
+      explanation: typeof item.explanation === "string" ? item.explanation.trim() : "",
+      evidence: evidence.slice(0, MAX_RELATION_EVIDENCE)
+    });
+  });
+  if (issues.length > 0) console.warn("Relation output had invalid items, dropped:", issues);
+  return relations.slice(0, MAX_RELATIONS);
+};
+
+/**
+ * Asks the model for typed relations between the final axioms of one
+ * manuscript. `excerpt` is the page-tagged text the quotes are drawn from.
+ */
+export const extractRelations = async (axioms: Axiom[], pages: ManuscriptPage[], excerpt: string, system: string): Promise<AxiomRelation[]> => {
+  if (axioms.length < 2) return [];
+  const messages: ChatMessage[] = [
+    { role: "system", content: system },
+    { role: "user", content: RELATIONS_PROMPT(axioms, excerpt) }
+  ];
+  for (let attempt = 1; attempt <= MAX_RELATION_ATTEMPTS; attempt++) {
+    const raw = await getLLMProvider().completeJSON(messages, { temperature: 0.2 });
+    const issues: SchemaIssue[] = [];
+    const relations = readRelations(raw, axioms.length, pages, issues);
+    if (relations) return relations;
+    console.warn(`Relation attempt ${attempt}/${MAX_RELATION_ATTEMPTS} rejected:`, issues);
+    messages.push({ role: "assistant", content: raw }, { role: "user", content: REPAIR_PROMPT(issues) });
+  }
+  throw new ParseFailureError("INVALID_RELATIONS");
+};
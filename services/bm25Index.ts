@@ -0,0 +1,60 @@
+import { tokenize } from "./textNormalizer";
+
+export interface Bm25Hit {
+  index: number;
+  score: number;
+}
+
+export interface Bm25Index {
+  size: number;
+  search: (query: string, topK?: number) => Bm25Hit[];
+}
+
+interface Posting {
+  doc: number;
+  tf: number;
+}
+
+const K1 = 1.5;
+const B = 0.75;
+
+/**
+ * بناء فهرس معكوس مرة واحدة ثم ترتيب المقاطع وفق BM25
+ */
+export const createBm25Index = (documents: string[]): Bm25Index => {
+  const postings = new Map<string, Posting[]>();
+  const docLengths: number[] = [];
+
+  documents.forEach((doc, docIndex) => {
+    const terms = tokenize(doc);
+    docLengths.push(terms.length);
+    const counts = new Map<string, number>();
+    for (const term of terms) counts.set(term, (counts.get(term) || 0) + 1);
+    counts.forEach((tf, term) => {
+      const list = postings.get(term);
+      if (list) list.push({ doc: docIndex, tf });
+      else postings.set(term, [{ doc: docIndex, tf }]);
+    });
+  });
+
+  const docCount = documents.length;
+  const avgLength = docCount > 0 ? docLengths.reduce((a, b) => a + b, 0) / docCount : 0;
+
+  const search = (query: string, topK: number = documents.length): Bm25Hit[] => {
+    const scores = new Map<number, number>();
+    for (const term of new Set(tokenize(query))) {
+      const list = postings.get(term);
+      if (!list) continue;
+      const idf = Math.log(1 + (docCount - list.length + 0.5) / (list.length + 0.5));
+      for (const { doc, tf } of list) {
+        const norm = tf + K1 * (1 - B + B * (docLengths[doc] / (avgLength || 1)));
+        scores.set(doc, (scores.get(doc) || 0) + idf * ((tf * (K1 + 1)) / norm));
+      }
+    }
+    return Array.from(scores, ([index, score]) => ({ index, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  };
+
+  return { size: docCount, search };
+};
@@ -0,0 +1,69 @@
+import { ChatMessage } from "./llmProvider";
+import { estimateTokens } from "../shared/tokenEstimate";
+
+/**
+ * Running memory of one thread. `history` holds the raw questions and answers;
+ * retrieved passages are attached to the current turn only, never stored.
+ */
+export interface ConversationMemory {
+  summary: string;
+  history: ChatMessage[];
+}
+
+export type Summarizer = (previousSummary: string, turns: ChatMessage[]) => Promise<string>;
+
+export const CONTEXT_TOKEN_BUDGET = 16000;
+export const RESPONSE_TOKEN_RESERVE = 4000;
+// بعد الطي نترك هامشاً حتى لا يُستدعى التلخيص مع كل سؤال جديد
+const COMPACTION_TARGET_RATIO = 0.6;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const messageTokens = (messages: ChatMessage[]): number =>
+  messages.reduce((sum, m) => sum + estimateTokens(m.content) + MESSAGE_OVERHEAD_TOKENS, 0);
+
+export const createConversationMemory = (history: ChatMessage[] = []): ConversationMemory => ({ summary: "", history });
+
+/**
+ * Keeps the passages that fit in `budget`, in rank order.
+ */
+export const fitToBudget = <T>(items: T[], budget: number, textOf: (item: T) => string): T[] => {
+  const kept: T[] = [];
+  let used = 0;
+  for (const item of items) {
+    const cost = estimateTokens(textOf(item)) + MESSAGE_OVERHEAD_TOKENS;
+    if (used + cost > budget) break;
+    kept.push(item);
+    used += cost;
+  }
+  return kept;
+};
+
+/**
+ * Folds the oldest turns into the running summary until the history fits in
+ * `budget` tokens. If summarizing fails, the oldest turns are dropped instead
+ * so the request still goes through.
+ */
+export const compactMemory = async (memory: ConversationMemory, budget: number, summarize: Summarizer) => {
+  const summaryCost = () => (memory.summary ? estimateTokens(memory.summary) + MESSAGE_OVERHEAD_TOKENS : 0);
+  if (messageTokens(memory.history) + summaryCost() <= budget) return;
+
+  const target = Math.max(0, budget * COMPACTION_TARGET_RATIO);
+  const folded: ChatMessage[] = [];
+  while (memory.history.length > 0 && messageTokens(memory.history) + summaryCost() > target) {
+    // نطوي الأدوار بالأزواج (سؤال وجواب) حتى لا يبقى جواب بلا سؤاله
+    folded.push(...memory.history.splice(0, memory.history[0].role === "user" && memory.history.length > 1 ? 2 : 1));
+  }
+  if (folded.length === 0) return;
+  try {
+    memory.summary = await summarize(memory.summary, folded);
+  } catch (error) {
+    console.error("Summarization failed, dropping oldest turns:", error);
+  }
+};
+
+export const assembleMessages = (system: string, memory: ConversationMemory, currentTurn: string): ChatMessage[] => [
+  { role: "system", content: system },
+  ...(memory.summary ? [{ role: "system" as const, content: `SUMMARY OF THE EARLIER DIALOGUE:\n${memory.summary}` }] : []),
+  ...memory.history,
+  { role: "user", content: currentTurn }
+];
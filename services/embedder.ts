@@ -0,0 +1,131 @@
+import { tokenize } from "./textNormalizer";
+
+export interface Embedder {
+  readonly name: string;
+  readonly dimensions: number;
+  /**
+   * Lets corpus-aware embedders learn from the manuscript before the chunks are
+   * embedded. Stateless embedders simply omit it.
+   */
+  fit?: (corpus: string[]) => void;
+  embed: (texts: string[]) => Promise<Float32Array[]>;
+}
+
+// FNV-1a: تجزئة ثابتة وسريعة لا تعتمد على أي مكتبة خارجية
+const hashString = (value: string, seed: number = 0x811c9dc5): number => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const normalizeVector = (vector: Float32Array): Float32Array => {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+  return vector;
+};
+
+export const cosineSimilarity = (a: Float32Array, b: Float32Array): number => {
+  let dot = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) dot += a[i] * b[i];
+  return dot;
+};
+
+const addHashed = (vector: Float32Array, feature: string, weight: number) => {
+  const hash = hashString(feature);
+  vector[hash % vector.length] += hash & 0x80000000 ? -weight : weight;
+};
+
+/**
+ * Deterministic feature-hashing embedder over terms and character trigrams.
+ * It has no notion of meaning beyond shared morphology, which makes its output
+ * stable enough to assert on in tests.
+ */
+export const createHashedEmbedder = (dimensions: number = 256): Embedder => ({
+  name: "hashed",
+  dimensions,
+  embed: async (texts) =>
+    texts.map(text => {
+      const vector = new Float32Array(dimensions);
+      for (const term of tokenize(text)) {
+        addHashed(vector, term, 1);
+        const padded = `#${term}#`;
+        for (let i = 0; i + 3 <= padded.length; i++) addHashed(vector, padded.substring(i, i + 3), 0.5);
+      }
+      return normalizeVector(vector);
+    })
+});
+
+interface RandomIndexingOptions {
+  dimensions?: number;
+  window?: number;
+  seeds?: number;
+}
+
+/**
+ * فهرسة عشوائية (Random Indexing): تتعلم كل كلمة متجهاً من سياقاتها داخل المخطوط نفسه،
+ * فتتقارب الكلمات التي تظهر في سياقات متشابهة دون أي اتصال بالشبكة
+ */
+export const createRandomIndexingEmbedder = ({ dimensions = 512, window = 4, seeds = 6 }: RandomIndexingOptions = {}): Embedder => {
+  const contextVectors = new Map<string, Float32Array>();
+  const documentFrequency = new Map<string, number>();
+  let documentCount = 0;
+
+  const addIndexVector = (target: Float32Array, term: string, weight: number) => {
+    for (let s = 0; s < seeds; s++) {
+      const hash = hashString(term, 0x811c9dc5 + s * 0x9e3779b9);
+      target[hash % dimensions] += hash & 0x80000000 ? -weight : weight;
+    }
+  };
+
+  const fit = (corpus: string[]) => {
+    contextVectors.clear();
+    documentFrequency.clear();
+    documentCount = corpus.length;
+    for (const doc of corpus) {
+      const terms = tokenize(doc);
+      new Set(terms).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+      terms.forEach((term, i) => {
+        let context = contextVectors.get(term);
+        if (!context) {
+          context = new Float32Array(dimensions);
+          contextVectors.set(term, context);
+        }
+        const from = Math.max(0, i - window);
+        const to = Math.min(terms.length - 1, i + window);
+        for (let j = from; j <= to; j++) {
+          if (j !== i) addIndexVector(context, terms[j], 1 / Math.abs(j - i));
+        }
+      });
+    }
+    contextVectors.forEach(normalizeVector);
+  };
+
+  const embed = async (texts: string[]) =>
+    texts.map(text => {
+      const vector = new Float32Array(dimensions);
+      for (const term of tokenize(text)) {
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (documentCount + 1) / (df + 1));
+        const context = contextVectors.get(term);
+        if (context) for (let i = 0; i < dimensions; i++) vector[i] += idf * context[i];
+        addIndexVector(vector, term, idf / Math.sqrt(seeds));
+      }
+      return normalizeVector(vector);
+    });
+
+  return { name: "random-indexing", dimensions, fit, embed };
+};
+
+let activeEmbedder: Embedder = createRandomIndexingEmbedder();
+
+export const getEmbedder = (): Embedder => activeEmbedder;
+
+export const setEmbedder = (embedder: Embedder) => {
+  activeEmbedder = embedder;
+};
@@ -0,0 +1,24 @@
+import { APIConnectionError, APIConnectionTimeoutError, AuthenticationError } from "groq-sdk";
+import { describe, expect, it } from "vitest";
+import { NetworkError, statusForError, toAppError } from "./errors";
+
+describe("toAppError", () => {
+  it("classifies groq-sdk connection failures as network errors", () => {
+    for (const error of [new APIConnectionError({}), new APIConnectionTimeoutError()]) {
+      const appError = toAppError(error);
+      expect(appError).toBeInstanceOf(NetworkError);
+      expect(appError.cause).toBe(error);
+      expect(statusForError(appError)).toBe(503);
+    }
+  });
+
+  it("classifies a rejected key as invalid_key", () => {
+    const appError = toAppError(new AuthenticationError(401, undefined, "Invalid API Key", {}));
+    expect(appError.code).toBe("invalid_key");
+    expect(appError.action).toBe("replace_key");
+  });
+
+  it("leaves unrecognised errors as unknown", () => {
+    expect(toAppError(new Error("Something odd")).code).toBe("unknown");
+  });
+});
@@ -0,0 +1,136 @@
+import { ErrorAction, ErrorCode } from "../types";
+
+/**
+ * Base of every error the app knows how to explain. `code` selects the
+ * translated message and `action` the remedy offered to the reader.
+ */
+export class AppError extends Error {
+  constructor(readonly code: ErrorCode, readonly action: ErrorAction, message: string = code, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class MissingKeyError extends AppError {
+  constructor(message: string = "GROQ_API_KEY_MISSING") {
+    super("missing_key", "configure_key", message);
+  }
+}
+
+export class InvalidKeyError extends AppError {
+  constructor(message: string = "INVALID_API_KEY", options?: { cause?: unknown }) {
+    super("invalid_key", "replace_key", message, options);
+  }
+}
+
+export class RateLimitError extends AppError {
+  constructor(message: string = "RATE_LIMITED", options?: { cause?: unknown }) {
+    super("rate_limit", "wait", message, options);
+  }
+}
+
+export class NetworkError extends AppError {
+  constructor(message: string = "NETWORK_ERROR", options?: { cause?: unknown }) {
+    super("network", "retry", message, options);
+  }
+}
+
+export class ContextOverflowError extends AppError {
+  constructor(message: string = "CONTEXT_OVERFLOW", options?: { cause?: unknown }) {
+    super("context_overflow", "smaller_file", message, options);
+  }
+}
+
+export class InvalidPdfError extends AppError {
+  constructor(message: string = "INVALID_PDF", options?: { cause?: unknown }) {
+    super("invalid_pdf", "other_file", message, options);
+  }
+}
+
+export class ParseFailureError extends AppError {
+  constructor(message: string = "PARSE_FAILURE", options?: { cause?: unknown }) {
+    super("parse_failure", "retry", message, options);
+  }
+}
+
+export class StorageError extends AppError {
+  constructor(message: string = "STORAGE_ERROR", options?: { cause?: unknown }) {
+    super("storage", "retry", message, options);
+  }
+}
+
+export class InvalidBundleError extends AppError {
+  constructor(message: string = "INVALID_BUNDLE", options?: { cause?: unknown }) {
+    super("invalid_bundle", "other_file", message, options);
+  }
+}
+
+export class MissingManuscriptError extends AppError {
+  constructor(message: string = "MISSING_MANUSCRIPT") {
+    super("missing_manuscript", "select_manuscript", message);
+  }
+}
+
+/**
+ * يعيد بناء الخطأ المصنف من رمزه بعد عبوره حدود الشبكة (من الخادم إلى المتصفح)
+ */
+export const createAppError = (code: ErrorCode, message?: string): AppError => {
+  switch (code) {
+    case "missing_key": return new MissingKeyError(message);
+    case "invalid_key": return new InvalidKeyError(message);
+    case "rate_limit": return new RateLimitError(message);
+    case "network": return new NetworkError(message);
+    case "context_overflow": return new ContextOverflowError(message);
+    case "invalid_pdf": return new InvalidPdfError(message);
+    case "parse_failure": return new ParseFailureError(message);
+    case "storage": return new StorageError(message);
+    case "invalid_bundle": return new InvalidBundleError(message);
+    case "missing_manuscript": return new MissingManuscriptError(message);
+    default: return new AppError("unknown", "retry", message);
+  }
+};
+
+const CONTEXT_OVERFLOW_PATTERN = /context[_ ]length|maximum context|too many tokens|REQUEST_TOO_LARGE/i;
+// groq-sdk يترك اسم خطأ الاتصال "Error"، فيُعرف من رسالته: "Connection error." و"Request timed out."
+const NETWORK_PATTERN = /failed to fetch|networkerror|network error|connection error|timed out|ECONNREFUSED|ECONNRESET|ETIMEDOUT|fetch failed/i;
+
+/**
+ * Classifies anything thrown by the providers, pdf.js or the server into the
+ * taxonomy above. Unrecognised errors become a generic `unknown` AppError.
+ */
+export const toAppError = (error: unknown): AppError => {
+  if (error instanceof AppError) return error;
+  const fields: Record<string, unknown> = error !== null && typeof error === "object" ? error as Record<string, unknown> : {};
+  const status = typeof fields.status === "number" ? fields.status : undefined;
+  const message = typeof fields.message === "string" ? fields.message : String(error);
+  const name = typeof fields.name === "string" ? fields.name : undefined;
+  const options = { cause: error };
+
+  if (message === "GROQ_API_KEY_MISSING") return new MissingKeyError(message);
+  if (status === 401 || status === 403) return new InvalidKeyError(message, options);
+  if (status === 429 || /rate.?limit/i.test(message)) return new RateLimitError(message, options);
+  if (status === 413 || CONTEXT_OVERFLOW_PATTERN.test(message)) return new ContextOverflowError(message, options);
+  if (name === "InvalidPDFException" || name === "PasswordException" || message === "PDF_NO_TEXT_LAYER") {
+    return new InvalidPdfError(message, options);
+  }
+  if (error instanceof SyntaxError || message === "EMPTY_RESULT") return new ParseFailureError(message, options);
+  if (NETWORK_PATTERN.test(message) || status === 502 || status === 503 || status === 504) {
+    return new NetworkError(message, options);
+  }
+  return new AppError("unknown", "retry", message, options);
+};
+
+/**
+ * The HTTP status the server answers with for each kind of failure.
+ */
+export const statusForError = (error: AppError): number => {
+  switch (error.code) {
+    case "rate_limit": return 429;
+    case "context_overflow": return 413;
+    case "missing_key":
+    case "invalid_key":
+    case "network": return 503;
+    case "parse_failure": return 502;
+    default: return 500;
+  }
+};
@@ -0,0 +1,163 @@
+import { Axiom, AxiomEvidence, ManuscriptMetadata } from "../types";
+import { ParseFailureError } from "./errors";
+
+export interface ExtractionResult {
+  axioms: Axiom[];
+  snippets: string[];
+  metadata: ManuscriptMetadata;
+}
+
+export type Script = "arabic" | "latin";
+
+export interface CountRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * What one extraction response must contain. Items beyond `max` are trimmed;
+ * fewer than `min` valid items fails validation.
+ */
+export interface ExtractionSchema {
+  axioms: CountRange;
+  snippets: CountRange;
+  // الكتابة المتوقعة للبديهيات؛ null حين تكون لغة المخطوط مختلطة أو غير واضحة
+  script: Script | null;
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a model response does not match the extraction schema. `issues`
+ * names every invalid part by path, e.g. `axioms[3].definition`.
+ */
+export class ExtractionSchemaError extends ParseFailureError {
+  constructor(public issues: SchemaIssue[], public raw: string) {
+    super(`Invalid extraction output: ${issues.map(i => `${i.path} ${i.message}`).join("; ")}`);
+  }
+}
+
+const AXIOM_FIELDS = ["term", "definition", "significance"] as const;
+const METADATA_FIELDS = ["title", "author", "chapters", "summary"] as const;
+const SCRIPT_NAMES: Record<Script, string> = { arabic: "Arabic", latin: "Latin" };
+
+/**
+ * تحديد الكتابة الغالبة على النص (عربية أو لاتينية) من نسبة الحروف، أو null عند الاختلاط
+ */
+export const detectScript = (text: string, minLetters: number = 20): Script | null => {
+  let arabic = 0;
+  let latin = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if ((code >= 0x0621 && code <= 0x064a) || (code >= 0x0671 && code <= 0x06d3)) arabic++;
+    else if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a) || (code >= 0xc0 && code <= 0x24f)) latin++;
+  }
+  const letters = arabic + latin;
+  if (letters < minLetters) return null;
+  if (arabic / letters >= 0.6) return "arabic";
+  if (arabic / letters <= 0.1) return "latin";
+  return null;
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+// الشواهد اختيارية: العنصر المعيب يُسقط ولا يُفشل الرد كله
+const readEvidence = (value: unknown, path: string, issues: SchemaIssue[]): AxiomEvidence[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: "must be an array" });
+    return [];
+  }
+  return value.flatMap((item: any, i: number) => {
+    if (!isNonEmptyString(item?.quote)) {
+      issues.push({ path: `${path}[${i}].quote`, message: "must be a non-empty string" });
+      return [];
+    }
+    const page = Number(item.page);
+    return [{ quote: item.quote.trim(), page: Number.isInteger(page) && page > 0 ? page : 0 }];
+  });
+};
+
+const checkCount = (path: string, valid: number, range: CountRange, issues: SchemaIssue[]): boolean => {
+  if (valid >= range.min) return true;
+  issues.push({ path, message: `has ${valid} valid item(s), expected at least ${range.min}` });
+  return false;
+};
+
+/**
+ * Parses and validates one extraction response. Invalid items are reported
+ * and dropped; the whole response fails only when the structure is wrong or
+ * too few valid items remain.
+ */
+export const validateExtraction = (raw: string, schema: ExtractionSchema): ExtractionResult => {
+  const issues: SchemaIssue[] = [];
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    throw new ExtractionSchemaError([{ path: "$", message: `is not valid JSON (${(error as Error).message})` }], raw);
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new ExtractionSchemaError([{ path: "$", message: "must be a JSON object" }], raw);
+  }
+
+  const axioms: Axiom[] = [];
+  if (!Array.isArray(data.axioms)) {
+    issues.push({ path: "axioms", message: "must be an array" });
+  } else {
+    data.axioms.forEach((item: any, i: number) => {
+      if (!item || typeof item !== "object") {
+        issues.push({ path: `axioms[${i}]`, message: "must be an object with term, definition and significance" });
+        return;
+      }
+      const missing = AXIOM_FIELDS.filter(field => !isNonEmptyString(item[field]));
+      missing.forEach(field => issues.push({ path: `axioms[${i}].${field}`, message: "must be a non-empty string" }));
+      if (missing.length > 0) return;
+      const axiom: Axiom = {
+        term: item.term.trim(),
+        definition: item.definition.trim(),
+        significance: item.significance.trim(),
+        evidence: readEvidence(item.evidence, `axioms[${i}].evidence`, issues)
+      };
+      const script = detectScript(`${axiom.term} ${axiom.definition}`, 3);
+      if (schema.script && script && script !== schema.script) {
+        issues.push({ path: `axioms[${i}]`, message: `is not in the manuscript's language (expected ${SCRIPT_NAMES[schema.script]} script)` });
+        return;
+      }
+      axioms.push(axiom);
+    });
+  }
+
+  const snippets: string[] = [];
+  if (data.snippets !== undefined && !Array.isArray(data.snippets)) {
+    issues.push({ path: "snippets", message: "must be an array of strings" });
+  } else {
+    (data.snippets || []).forEach((item: unknown, i: number) => {
+      if (isNonEmptyString(item)) snippets.push(item.trim());
+      else issues.push({ path: `snippets[${i}]`, message: "must be a non-empty string" });
+    });
+  }
+
+  const metadata: ManuscriptMetadata = {};
+  if (data.metadata && typeof data.metadata === "object") {
+    METADATA_FIELDS.forEach(field => {
+      if (isNonEmptyString(data.metadata[field])) metadata[field] = data.metadata[field].trim();
+    });
+  }
+
+  const countsOk = [
+    Array.isArray(data.axioms) && checkCount("axioms", axioms.length, schema.axioms, issues),
+    checkCount("snippets", snippets.length, schema.snippets, issues)
+  ].every(Boolean);
+  if (!countsOk) throw new ExtractionSchemaError(issues, raw);
+
+  if (issues.length > 0) console.warn("Extraction output had invalid items, dropped:", issues);
+  return {
+    axioms: axioms.slice(0, schema.axioms.max),
+    snippets: snippets.slice(0, schema.snippets.max),
+    metadata
+  };
+};
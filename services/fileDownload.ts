@@ -0,0 +1,27 @@
+/**
+ * تنزيل محتوى مولَّد في المتصفح كملف، دون المرور بالخادم
+ */
+export const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // بعد أن يلتقط المتصفح الرابط
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Opens a generated HTML page in a new tab, e.g. a report that prints itself.
+ */
+export const openHtmlPage = (html: string) => {
+  const url = URL.createObjectURL(new Blob([html], { type: "text/html" }));
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+// اسم ملف آمن من عنوان المخطوط: بلا امتداد ولا محارف ممنوعة في أنظمة الملفات
+export const toFileStem = (name: string): string =>
+  name.replace(/\.pdf$/i, "").replace(/[\\/:*?"<>|]+/g, "_").trim() || "sanctuary";
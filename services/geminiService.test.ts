@@ -0,0 +1,90 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { ChatMode, ManuscriptState, Message } from "../types";
+import { chatWithManuscriptStream, createChatThread, editUserMessage, restoreManuscriptState, rewindChatThread, setCompanionManuscripts } from "./geminiService";
+import { createHashedEmbedder, setEmbedder } from "./embedder";
+import { setLLMProvider } from "./llmProvider";
+import { createScriptedProvider } from "./providers/mockProvider";
+
+const state: ManuscriptState = {
+  pages: [
+    { page: 1, text: "Photosynthesis converts sunlight into chemical energy inside the chloroplasts of green leaves." },
+    { page: 2, text: "Medieval merchants traded silk and spices along caravan routes across the desert." }
+  ],
+  chunks: [
+    { text: "Photosynthesis converts sunlight into chemical energy inside the chloroplasts of green leaves.", startPage: 1, endPage: 1 },
+    { text: "Medieval merchants traded silk and spices along caravan routes across the desert.", startPage: 2, endPage: 2 }
+  ],
+  axioms: [],
+  metadata: {},
+  snippets: []
+};
+
+// الموجّه الأخير المرسل إلى النموذج، بعد أن تُجري الخدمة الاسترجاع
+const sendTurn = async (question: string, mode: ChatMode = "dialogue"): Promise<string> => {
+  const provider = createScriptedProvider({ streams: [["ok"]] });
+  setLLMProvider(provider);
+  const thread = createChatThread(`thread-${question}`, "");
+  await chatWithManuscriptStream(thread.id, question, "en", () => {}, { mode });
+  const messages = provider.calls[0].messages;
+  return messages[messages.length - 1].content;
+};
+
+describe("retrieval", () => {
+  beforeEach(async () => {
+    setEmbedder(createHashedEmbedder());
+    await restoreManuscriptState(state);
+  });
+
+  it("sends the matching passage as context", async () => {
+    const prompt = await sendTurn("How do chloroplasts turn sunlight into energy?");
+    expect(prompt).toContain("[p. 1]");
+    expect(prompt).toContain("chloroplasts of green leaves");
+    expect(prompt).not.toContain("caravan routes");
+  });
+
+  it("sends no passage when nothing in the manuscript matches", async () => {
+    const prompt = await sendTurn("Quantum gravity xyzzy");
+    expect(prompt).not.toContain("chloroplasts");
+    expect(prompt).not.toContain("caravan");
+    expect(prompt).toContain("No passage of the manuscript text is available");
+  });
+
+  it("applies the same relevance floor to every work when comparing", async () => {
+    const companionText = "Glaciers carve deep valleys as compacted ice slowly flows down the mountain slopes.";
+    await setCompanionManuscripts([{
+      id: "companion",
+      work: 2,
+      name: "Glaciers.pdf",
+      state: { pages: [{ page: 1, text: companionText }], chunks: [{ text: companionText, startPage: 1, endPage: 1 }], axioms: [], metadata: {}, snippets: [] }
+    }]);
+    const prompt = await sendTurn("How do chloroplasts turn sunlight into energy?", "compare");
+    expect(prompt).toContain("[W1, p. 1]");
+    expect(prompt).not.toContain("Glaciers carve");
+    expect(prompt).not.toContain("caravan routes");
+  });
+});
+
+describe("branching", () => {
+  beforeEach(async () => {
+    setEmbedder(createHashedEmbedder());
+    await restoreManuscriptState(state);
+  });
+
+  it("re-asks an edited passage question about the same passage", async () => {
+    const passage = { text: "Medieval merchants traded silk and spices", page: 2 };
+    const original: Message = { role: "user", content: "What is this?", passage };
+    const edited = editUserMessage(original, "Who were these merchants?");
+    expect(edited).toEqual({ role: "user", content: "Who were these merchants?", passage });
+
+    const provider = createScriptedProvider({ streams: [["ok"]] });
+    setLLMProvider(provider);
+    const branch = createChatThread("branch", "");
+    rewindChatThread(branch.id, []);
+    await chatWithManuscriptStream(branch.id, edited.content, "en", () => {}, { mode: edited.mode, passage: edited.passage });
+    expect(provider.calls[0].messages.at(-1)?.content).toContain("PASSAGE SELECTED BY THE READER [p. 2]");
+  });
+
+  it("keeps compare mode on an edited question", () => {
+    expect(editUserMessage({ role: "user", content: "Compare", mode: "compare" }, "Compare the works").mode).toBe("compare");
+  });
+});
@@ -1,34 +1,88 @@
-import Groq from "groq-sdk";
-import { Axiom, Language } from "../types";
-import { translations } from "../translations";
+import {
+  Axiom,
+  AxiomRelation,
+  ChatMode,
+  ChatThread,
+  CompanionManuscript,
+  DocumentChunk,
+  Language,
+  ManuscriptMetadata,
+  ManuscriptPage,
+  ManuscriptState,
+  Message,
+  PassageContext,
+  ProgressHandler,
+  QuoteCheck
+} from "../types";
+import { extractPdfPages } from "./pdfService";
+import { extractFromPages, relateAxioms } from "./axiomExtraction";
+import { QuoteIndex, createQuoteIndex, extractQuotes } from "./quoteVerifier";
+import { Bm25Index, createBm25Index } from "./bm25Index";
+import { cosineSimilarity, getEmbedder } from "./embedder";
+import { ChatMessage, getLLMProvider } from "./llmProvider";
+import {
+  CONTEXT_TOKEN_BUDGET,
+  ConversationMemory,
+  RESPONSE_TOKEN_RESERVE,
+  assembleMessages,
+  compactMemory,
+  createConversationMemory,
+  fitToBudget
+} from "./contextManager";
+import { estimateTokens } from "../shared/tokenEstimate";
 // --- Types for local state ---
-interface ChatSession {
-  history: Array<{ role: "system" | "user" | "assistant"; content: string }>;
-}
-let chatSession: ChatSession | null = null;
+type ChatSession = ConversationMemory;
+// كل مبحث (thread) يملك تاريخه المستقل لدى الخدمة
+const chatSessions = new Map<string, ChatSession>();
 let manuscriptSnippets: string[] = [];
-let documentChunks: string[] = [];
-let fullManuscriptText: string = "";
-let currentPdfBase64: string | null = null;
-let manuscriptMetadata: { title?: string; author?: string; chapters?: string; summary?: string } = {};
+let documentChunks: DocumentChunk[] = [];
+let companionManuscripts: CompanionManuscript[] = [];
+// المقاطع المفهرسة تشمل المخطوط الأساسي وكل المخطوطات المرافقة في المحراب
+let indexedChunks: DocumentChunk[] = [];
+let chunkIndex: Bm25Index | null = null;
+let chunkVectors: Float32Array[] = [];
+// فهارس التحقق من الاقتباسات تُبنى عند أول حاجة وتُلغى مع كل إعادة فهرسة
+let quoteIndexes: QuoteIndex[] | null = null;
+let manuscriptPages: ManuscriptPage[] = [];
+let manuscriptMetadata: ManuscriptMetadata = {};
 let manuscriptAxioms: Axiom[] = []; // 🔑 Global Context Layer
-// إدارة حدود الـ API (خلف الكواليس)
-let lastRequestTime = 0;
-const MIN_REQUEST_GAP = 3500; // فجوة زمنية ذكية لتجنب RPM limit
-const getSystemInstruction = (lang: Language) => `You are an Elite Intellectual Researcher, the primary consciousness of the Knowledge AI infrastructure.
-IDENTITY: You are developed exclusively by the Knowledge AI team. Never mention third-party entities like Google, Gemini, or Meta.
-${manuscriptMetadata.title ? `MANUSCRIPT METADATA:
+// غير معرّفة حتى تُرسم العلاقات؛ المصفوفة الفارغة تعني أنها رُسمت فلم يُعثر على شيء
+let manuscriptRelations: AxiomRelation[] | undefined;
+const isMultiWork = () => companionManuscripts.length > 0;
+const describeAxioms = (axioms: Axiom[]) => axioms.map(a => `• ${a.term}: ${a.definition} (${a.significance})`).join("\n");
+const getWorks = (): Array<{ label: string; metadata: ManuscriptMetadata; axioms: Axiom[]; name?: string }> => [
+  { label: "W1", metadata: manuscriptMetadata, axioms: manuscriptAxioms },
+  ...companionManuscripts.map(c => ({ label: `W${c.work}`, metadata: c.state.metadata, axioms: c.state.axioms, name: c.name }))
+];
+/**
+ * سياق المحراب: مخطوط واحد كما كان، أو قائمة بالأعمال المرقمة عند المقارنة بين عدة كتب
+ */
+const describeSanctuary = (): string => {
+  if (!isMultiWork()) {
+    return `${manuscriptMetadata.title ? `MANUSCRIPT METADATA:
 - Title: ${manuscriptMetadata.title}
 - Author: ${manuscriptMetadata.author}
 - Structure: ${manuscriptMetadata.chapters}` : ""}
 ${manuscriptAxioms.length > 0 ? `CORE KNOWLEDGE AXIOMS (GLOBAL CONTEXT MAP):
-${manuscriptAxioms.map(a => `• ${a.term}: ${a.definition} (${a.significance})`).join("\n")}
-Use these axioms to understand the deeper meaning of the text without needing to re-read everything.` : ""}
+${describeAxioms(manuscriptAxioms)}
+Use these axioms to understand the deeper meaning of the text without needing to re-read everything.` : ""}`;
+  }
+  return `THIS SANCTUARY HOLDS ${getWorks().length} WORKS. Each passage in the context is labelled with its work (W1, W2, ...).
+${getWorks().map(w => `${w.label}: "${w.metadata.title || w.name || w.label}"${w.metadata.author ? ` by ${w.metadata.author}` : ""}
+CORE KNOWLEDGE AXIOMS OF ${w.label}:
+${describeAxioms(w.axioms)}`).join("\n\n")}
+Use these axioms as the mental map of each work. Always attribute ideas to the work they come from.`;
+};
+const citationFormat = () => (isMultiWork() ? "[Wn, p. N]" : "[p. N]");
+const getSystemInstruction = (lang: Language, withManuscriptContext: boolean = true) => `You are an Elite Intellectual Researcher, the primary consciousness of the Knowledge AI infrastructure.
+IDENTITY: You are developed exclusively by the Knowledge AI team. Never mention third-party entities like Google, Gemini, or Meta.
+${withManuscriptContext ? describeSanctuary() : ""}
 MANDATORY OPERATIONAL PROTOCOL:
 1. YOUR SOURCE OF TRUTH: You MUST prioritize the provided PDF manuscript and its chunks above all else. Use the Axioms above as your "mental map" of the document.
 2. AUTHOR STYLE MIRRORING: You MUST adopt the exact linguistic style, tone, and intellectual depth of the author.
-3. ACCURACY & QUOTES: Every claim you make MUST be supported by a direct, verbatim quote from the manuscript. Use the format: "Quote from text" (Source/Context).
-4. NO GENERALIZATIONS: Do not give generic answers. Scan the provided context thoroughly for specific details.
+3. ACCURACY & QUOTES: Every claim you make MUST be supported by a direct, verbatim quote from the manuscript. Use the format: "Quote from text" ${citationFormat()}, where N is the page given in the context header of the passage you quote.
+4. PAGE CITATIONS: Always write page citations exactly as ${citationFormat()} (or ${isMultiWork() ? "[Wn, pp. N-M]" : "[pp. N-M]"} for a range), even when answering in Arabic. Never invent a page number that is not in the provided context.
+5. NO GENERALIZATIONS: Do not give generic answers. Scan the provided context thoroughly for specific details.
 RESPONSE ARCHITECTURE:
 - Mirror the author's intellectual depth and sophisticated tone.
 - Use Markdown: ### for headers, **Bold** for key terms, and LaTeX for formulas.
@@ -37,168 +91,355 @@ RESPONSE ARCHITECTURE:
 - ELABORATE: Provide comprehensive, detailed, and in-depth answers. Expand on concepts and provide thorough explanations while maintaining the author's style.
 - BE SUPER FAST.
 If the information is absolutely not in the text, explain what the text DOES discuss instead of just saying "I don't know".`;
-export const getGroqClient = () => {
-  const apiKey = process.env.GROQ_API_KEY;
-  if (!apiKey || apiKey === "undefined") throw new Error("GROQ_API_KEY_MISSING");
-  
-  return new Groq({
-    apiKey: apiKey,
-    dangerouslyAllowBrowser: true 
-  });
-};
-const MODEL_NAME = "meta-llama/llama-4-maverick-17b-128e-instruct";
+const PAGE_SEPARATOR = "\n\n";
 /**
- * استعادة استراتيجية التقطيع الأصلية لضمان جودة السياق
+ * استعادة استراتيجية التقطيع الأصلية لضمان جودة السياق، مع تتبع نطاق الصفحات لكل مقطع
  */
-const chunkText = (text: string, chunkSize: number = 1800, overlap: number = 250): string[] => {
-  const chunks: string[] = [];
+const chunkText = (pages: ManuscriptPage[], chunkSize: number = 1800, overlap: number = 250): DocumentChunk[] => {
+  const pageStarts: Array<{ page: number; offset: number }> = [];
+  let text = "";
+  for (const p of pages) {
+    if (p.text.length === 0) continue;
+    if (text.length > 0) text += PAGE_SEPARATOR;
+    pageStarts.push({ page: p.page, offset: text.length });
+    text += p.text;
+  }
+  const pageAt = (offset: number): number => {
+    let page = pageStarts[0]?.page ?? 1;
+    for (const start of pageStarts) {
+      if (start.offset > offset) break;
+      page = start.page;
+    }
+    return page;
+  };
+  const chunks: DocumentChunk[] = [];
   let start = 0;
   while (start < text.length) {
     const end = Math.min(start + chunkSize, text.length);
     const chunk = text.substring(start, end);
-    if (chunk.trim().length >= 200) chunks.push(chunk);
+    if (chunk.trim().length >= 200) {
+      chunks.push({ text: chunk, startPage: pageAt(start), endPage: pageAt(end - 1) });
+    }
     if (end === text.length) break;
     start += chunkSize - overlap;
   }
   return chunks;
 };
+const formatPageRange = (chunk: DocumentChunk): string => {
+  const pages = chunk.startPage === chunk.endPage ? `p. ${chunk.startPage}` : `pp. ${chunk.startPage}-${chunk.endPage}`;
+  return chunk.work ? `W${chunk.work}, ${pages}` : pages;
+};
+const VECTOR_WEIGHT = 0.6;
+const MIN_FUSED_SCORE = 0.15;
 /**
- * استعادة منطق الاسترجاع الأصلي مع تحسين بسيط في النقاط لضمان الجودة
+ * استرجاع هجين: دمج درجات BM25 المعيّرة مع تشابه المتجهات الدلالية.
+ * في وضع التوازن يُؤخذ المقطع الأفضل من كل عمل بالتناوب حتى لا يطغى كتاب على آخر
  */
-const retrieveRelevantChunks = (query: string, chunks: string[], topK: number = 2): string[] => {
-  if (chunks.length === 0) return [];
-  const queryWords = query.toLowerCase().split(/\s+/).filter(w => w.length > 3);
-  const MIN_SCORE_THRESHOLD = 4; 
-  const scoredChunks = chunks.map(chunk => {
-    const chunkLower = chunk.toLowerCase();
-    let score = 0;
-    queryWords.forEach(word => { if (chunkLower.includes(word)) score += 2; });
-    const qLower = query.toLowerCase();
-    if (qLower.includes("كاتب") || qLower.includes("مؤلف") || qLower.includes("author")) {
-      if (chunks.indexOf(chunk) === 0) score += 5;
+const retrieveRelevantChunks = async (query: string, topK: number = 2, balanced: boolean = false): Promise<DocumentChunk[]> => {
+  if (!chunkIndex || indexedChunks.length === 0) return [];
+  const lexicalHits = chunkIndex.search(query);
+  const maxLexical = lexicalHits[0]?.score || 0;
+  const fused = new Float32Array(indexedChunks.length);
+  if (maxLexical > 0) {
+    for (const hit of lexicalHits) fused[hit.index] += (1 - VECTOR_WEIGHT) * (hit.score / maxLexical);
+  }
+  if (chunkVectors.length === indexedChunks.length) {
+    const [queryVector] = await getEmbedder().embed([query]);
+    chunkVectors.forEach((vector, i) => {
+      fused[i] += VECTOR_WEIGHT * Math.max(0, cosineSimilarity(queryVector, vector));
+    });
+  }
+  const ranked = Array.from(fused, (score, index) => ({ index, score })).sort((a, b) => b.score - a.score);
+  if (balanced && isMultiWork()) {
+    const byWork = new Map<number, number[]>();
+    for (const { index, score } of ranked) {
+      // الحد الأدنى نفسه يسري على كل عمل، فلا يُحشى السياق بمقاطع لا صلة لها لمجرد التوازن
+      if (score < MIN_FUSED_SCORE) break;
+      const work = indexedChunks[index].work || 1;
+      if (!byWork.has(work)) byWork.set(work, []);
+      byWork.get(work)!.push(index);
     }
-    return { chunk, score };
-  });
-  return scoredChunks
-    .sort((a, b) => b.score - a.score)
-    .filter(item => item.score >= MIN_SCORE_THRESHOLD)
+    const picked: DocumentChunk[] = [];
+    for (let round = 0; picked.length < topK && round < topK; round++) {
+      byWork.forEach(indices => { if (indices[round] !== undefined && picked.length < topK) picked.push(indexedChunks[indices[round]]); });
+    }
+    return picked;
+  }
+  // مقاطع ضعيفة الصلة تضلل النموذج أكثر مما تفيده؛ غيابها يوجّهه إلى التصريح بعدم وجود نص
+  return ranked
+    .filter(item => item.score >= MIN_FUSED_SCORE)
     .slice(0, topK)
-    .map(item => item.chunk); 
+    .map(item => indexedChunks[item.index]);
 };
-const throttleRequest = async () => {
-  const now = Date.now();
-  const timeSinceLast = now - lastRequestTime;
-  if (timeSinceLast < MIN_REQUEST_GAP) {
-    await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_GAP - timeSinceLast));
-  }
-  lastRequestTime = Date.now();
+/**
+ * Rebuilds the lexical index and chunk embeddings over the primary manuscript
+ * and every companion, once, so each query after that is a lookup rather than
+ * a scan. Chunks are tagged with their work number only when there is more
+ * than one work.
+ */
+const rebuildIndex = async () => {
+  indexedChunks = isMultiWork()
+    ? [
+        ...documentChunks.map(chunk => ({ ...chunk, work: 1 })),
+        ...companionManuscripts.flatMap(c => c.state.chunks.map(chunk => ({ ...chunk, work: c.work })))
+      ]
+    : documentChunks;
+  const texts = indexedChunks.map(chunk => chunk.text);
+  const embedder = getEmbedder();
+  embedder.fit?.(texts);
+  chunkIndex = createBm25Index(texts);
+  chunkVectors = await embedder.embed(texts);
+  quoteIndexes = null;
+};
+const setDocumentChunks = async (chunks: DocumentChunk[]) => {
+  documentChunks = chunks;
+  await rebuildIndex();
+};
+/**
+ * Attaches companion works to the current sanctuary and re-indexes, so
+ * retrieval and the system prompt span all of them.
+ */
+export const setCompanionManuscripts = async (companions: CompanionManuscript[]) => {
+  companionManuscripts = companions;
+  await rebuildIndex();
 };
-export const extractAxioms = async (pdfBase64: string, lang: Language): Promise<Axiom[]> => {
+/**
+ * استخراج البديهيات والمقتطفات والبيانات الوصفية لمخطوط واحد دون المساس بحالة المحراب الحالية
+ */
+const analyzePages = async (pages: ManuscriptPage[], lang: Language, onProgress?: ProgressHandler): Promise<ManuscriptState> => {
+  const chunks = chunkText(pages);
+  onProgress?.({ stage: "chunking", chunks: chunks.length });
+  const result = await extractFromPages(pages, getSystemInstruction(lang, false), onProgress);
+  return {
+    pages,
+    chunks,
+    axioms: result.axioms,
+    metadata: result.metadata,
+    snippets: result.snippets,
+    relations: result.relations
+  };
+};
+const applyPrimaryState = async (state: ManuscriptState) => {
+  manuscriptPages = state.pages;
+  manuscriptSnippets = state.snippets;
+  manuscriptMetadata = state.metadata;
+  manuscriptAxioms = state.axioms; // 🔑 Store Axioms Globally
+  manuscriptRelations = state.relations;
+  await setDocumentChunks(state.chunks);
+};
+/**
+ * Runs extraction over text that is already split into pages. `extractAxioms`
+ * feeds it from pdf.js; tests can call it directly with a scripted provider.
+ * This starts a new sanctuary, so companions and threads are cleared.
+ */
+export const extractAxiomsFromPages = async (pages: ManuscriptPage[], lang: Language, onProgress?: ProgressHandler): Promise<Axiom[]> => {
   try {
-    await throttleRequest();
-    const groq = getGroqClient();
-    chatSession = null;
-    currentPdfBase64 = pdfBase64;
-    const combinedPrompt = `1. Extract exactly 13 high-quality 'Knowledge Axioms' from this manuscript.
-2. Extract 10 short, profound, and useful snippets or quotes DIRECTLY from the text (verbatim).
-3. Extract the FULL TEXT of this PDF accurately.
-4. Identify the Title, Author, and a brief list of Chapters/Structure.
-IMPORTANT: The 'axioms', 'snippets', and 'metadata' MUST be in the SAME LANGUAGE as the PDF manuscript itself.
-Return ONLY JSON with this structure:
-{
-  "axioms": [{ "term": "...", "definition": "...", "significance": "..." }],
-  "snippets": ["..."],
-  "metadata": { "title": "...", "author": "...", "chapters": "..." },
-  "fullText": "..."
-}`;
-    const response = await groq.chat.completions.create({
-      model: MODEL_NAME,
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: getSystemInstruction(lang) + "\n\n" + combinedPrompt },
-            {
-              type: "image_url",
-              image_url: {
-                url: `data:application/pdf;base64,${pdfBase64}`, 
-              },
-            },
-          ],
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.2, 
-    });
-    const contentWrapper = response.choices[0]?.message?.content;
-    if (!contentWrapper) throw new Error("No content returned from Groq");
-    const result = JSON.parse(contentWrapper);
-    
-    manuscriptSnippets = result.snippets || [];
-    fullManuscriptText = result.fullText || "";
-    manuscriptMetadata = result.metadata || {};
-    manuscriptAxioms = result.axioms || []; // 🔑 Store Axioms Globally
-    documentChunks = chunkText(fullManuscriptText);
-    
-    currentPdfBase64 = null; 
-    return result.axioms;
+    chatSessions.clear();
+    companionManuscripts = [];
+    const state = await analyzePages(pages, lang, onProgress);
+    await applyPrimaryState(state);
+    return state.axioms;
   } catch (error: any) {
     console.error("Error in extractAxioms:", error);
     throw error;
   }
 };
+export const extractAxioms = async (pdfBase64: string, lang: Language, onProgress?: ProgressHandler): Promise<Axiom[]> => {
+  const pages = await extractPdfPages(pdfBase64, onProgress);
+  return extractAxiomsFromPages(pages, lang, onProgress);
+};
+/**
+ * يحلل مخطوطاً مرافقاً ويعيد حالته دون تغيير المخطوط الأساسي
+ */
+export const analyzeManuscript = async (pdfBase64: string, lang: Language, onProgress?: ProgressHandler): Promise<ManuscriptState> =>
+  analyzePages(await extractPdfPages(pdfBase64, onProgress), lang, onProgress);
 export const getManuscriptSnippets = () => manuscriptSnippets;
-export const chatWithManuscriptStream = async (
-  userPrompt: string,
-  lang: Language,
-  onChunk: (text: string) => void
-): Promise<void> => {
-  const groq = getGroqClient();
-  try {
-    await throttleRequest();
-    const relevantChunks = retrieveRelevantChunks(userPrompt, documentChunks);
-    
-    let augmentedPrompt = "";
-    const hasChunks = relevantChunks.length > 0;
-    if (hasChunks) {
-      const contextText = relevantChunks.join("\n\n---\n\n");
-      augmentedPrompt = `CRITICAL CONTEXT FROM MANUSCRIPT:
+export const getManuscriptState = (): ManuscriptState => ({
+  pages: manuscriptPages,
+  chunks: documentChunks,
+  axioms: manuscriptAxioms,
+  metadata: manuscriptMetadata,
+  snippets: manuscriptSnippets,
+  relations: manuscriptRelations
+});
+/**
+ * يرسم علاقات البديهيات للمخطوط الحالي عند الطلب، للمحاريب المحفوظة قبل استخراج العلاقات
+ */
+export const mapAxiomRelations = async (lang: Language): Promise<AxiomRelation[]> => {
+  const axioms = manuscriptAxioms;
+  const relations = await relateAxioms(axioms, manuscriptPages, getSystemInstruction(lang, false));
+  // إن فُتح محراب آخر أثناء الرسم فالنتيجة ليست له
+  if (manuscriptAxioms === axioms) manuscriptRelations = relations;
+  return relations;
+};
+const MAX_PASSAGE_CHARS = 2000;
+const formatPassageLabel = (passage: PassageContext) =>
+  formatPageRange({ text: passage.text, startPage: passage.page, endPage: passage.page, work: passage.work });
+// ما يُحفظ في الذاكرة بدل السؤال الخام حين يسأل القارئ عن مقطع بعينه، ليبقى مرجع الأسئلة التالية واضحاً
+const rememberedPrompt = (userPrompt: string, passage?: PassageContext) =>
+  passage ? `[About the passage at ${formatPassageLabel(passage)}: "${passage.text.slice(0, 300)}"]\n${userPrompt}` : userPrompt;
+const toHistory = (messages: Message[]): ChatMessage[] =>
+  messages
+    .filter(m => m.content)
+    .map(m => m.role === "user"
+      ? { role: "user", content: rememberedPrompt(m.content, m.passage) }
+      : { role: "assistant", content: m.content });
+/**
+ * استعادة محراب محفوظ دون استدعاء النموذج: يُعاد بناء الفهرس والمتجهات محلياً
+ */
+export const restoreManuscriptState = async (
+  state: ManuscriptState,
+  threads: ChatThread[] = [],
+  companions: CompanionManuscript[] = []
+) => {
+  companionManuscripts = companions;
+  await applyPrimaryState(state);
+  chatSessions.clear();
+  threads.forEach(thread => chatSessions.set(thread.id, createConversationMemory(toHistory(thread.messages))));
+};
+export const createChatThread = (id: string, title: string): ChatThread => {
+  chatSessions.set(id, createConversationMemory());
+  return { id, title, createdAt: Date.now(), messages: [] };
+};
+export const deleteChatThread = (threadId: string) => {
+  chatSessions.delete(threadId);
+};
+/**
+ * Rewinds a thread's service-side memory to match `messages`, used when the UI
+ * regenerates an answer or truncates the dialogue. The running summary is
+ * dropped because it may describe turns that no longer exist.
+ */
+export const rewindChatThread = (threadId: string, messages: Message[]) => {
+  chatSessions.set(threadId, createConversationMemory(toHistory(messages)));
+};
+/**
+ * The question a branch re-asks: the edited text, keeping the mode and the
+ * passage of the message it replaces.
+ */
+export const editUserMessage = (original: Message, content: string): Message => ({
+  role: "user",
+  content,
+  ...(original.mode ? { mode: original.mode } : {}),
+  ...(original.passage ? { passage: original.passage } : {})
+});
+const getChatSession = (threadId: string): ChatSession => {
+  let session = chatSessions.get(threadId);
+  if (!session) {
+    session = createConversationMemory();
+    chatSessions.set(threadId, session);
+  }
+  return session;
+};
+const CHUNK_TOKEN_SHARE = 0.35;
+/**
+ * طي الأدوار القديمة في ملخص متراكم عبر النموذج نفسه
+ */
+const summarizeTurns = async (previousSummary: string, turns: ChatMessage[]): Promise<string> => {
+  const transcript = turns.map(t => `${t.role === "user" ? "QUESTION" : "ANSWER"}: ${t.content}`).join("\n\n");
+  const content = await getLLMProvider().completeJSON([
+    {
+      role: "system",
+      content: "You maintain the running memory of a research dialogue about a manuscript. Merge the earlier summary with the new exchanges. Keep the questions asked, the conclusions reached, page citations and any terms the user defined. At most 250 words, in the language of the dialogue. Return ONLY JSON: { \"summary\": \"...\" }"
+    },
+    { role: "user", content: `EARLIER SUMMARY:\n${previousSummary || "(none)"}\n\nNEW EXCHANGES:\n${transcript}` }
+  ], { temperature: 0.1, priority: "interactive" });
+  const summary = JSON.parse(content).summary;
+  if (typeof summary !== "string" || !summary.trim()) throw new Error("EMPTY_SUMMARY");
+  return summary.trim();
+};
+const buildTurnPrompt = (userPrompt: string, relevantChunks: DocumentChunk[], mode: ChatMode, passage?: PassageContext): string => {
+  const contextText = relevantChunks
+    .map(chunk => `[${formatPageRange(chunk)}]\n${chunk.text}`)
+    .join("\n\n---\n\n");
+  if (passage) {
+    return `PASSAGE SELECTED BY THE READER [${formatPassageLabel(passage)}]:
+"${passage.text.slice(0, MAX_PASSAGE_CHARS)}"
+${contextText ? `SURROUNDING CONTEXT FROM THE MANUSCRIPT:\n${contextText}\n` : ""}USER QUESTION ABOUT THIS PASSAGE:
+${userPrompt}
+INSTRUCTION: The question is about the selected passage above. Explain it first in its own terms, then relate it to the rest of the work using the surrounding context. Cite pages as ${citationFormat()}.`;
+  }
+  if (mode === "compare" && isMultiWork()) {
+    return `${contextText ? `CRITICAL CONTEXT FROM THE WORKS:\n${contextText}\n` : ""}USER REQUEST:
+${userPrompt}
+COMPARATIVE MODE: Set the Knowledge Axioms of the works against each other. Identify where they converge, where they are in tension or contradict each other, and what each work contributes that the others lack. Organise the answer by theme, not by book. Ground every point in a verbatim quote cited as [Wn, p. N].`;
+  }
+  if (relevantChunks.length > 0) {
+    return `CRITICAL CONTEXT FROM MANUSCRIPT:
 ${contextText}
 USER QUESTION:
 ${userPrompt}
-INSTRUCTION: You MUST answer based on the provided context. Adopt the author's style. Support your answer with direct quotes.`;
-    } else {
-      augmentedPrompt = `USER QUESTION: ${userPrompt}
-INSTRUCTION: Scan the entire manuscript to find the answer. Adopt the author's style. Be specific and provide quotes.`;
-    }
-    if (!chatSession) {
-      chatSession = { history: [] };
+INSTRUCTION: You MUST answer based on the provided context. Adopt the author's style. Support your answer with direct quotes and cite the page of each one as ${citationFormat()}.`;
+  }
+  return `USER QUESTION: ${userPrompt}
+INSTRUCTION: No passage of the manuscript text is available for this question. Answer from the Knowledge Axioms and metadata above, state clearly that no verbatim passage could be retrieved, and do not fabricate quotes or page numbers.`;
+};
+/**
+ * Checks every quoted passage of an answer against the text of each work in
+ * the sanctuary and reports where it was found, if anywhere.
+ */
+export const verifyAnswerQuotes = (answer: string): QuoteCheck[] => {
+  const quotes = extractQuotes(answer);
+  if (quotes.length === 0) return [];
+  if (!quoteIndexes) {
+    quoteIndexes = [manuscriptPages, ...companionManuscripts.map(c => c.state.pages)].map(createQuoteIndex);
+  }
+  const indexes = quoteIndexes;
+  const works = [1, ...companionManuscripts.map(c => c.work)];
+  return quotes.map(quote => {
+    let best: QuoteCheck = { quote, verified: false };
+    let bestScore = 0;
+    for (let i = 0; i < indexes.length; i++) {
+      const location = indexes[i].locate(quote);
+      if (!location || location.score <= bestScore) continue;
+      bestScore = location.score;
+      best = { quote, verified: true, page: location.page, ...(isMultiWork() ? { work: works[i] } : {}) };
     }
-    
-    chatSession.history.push({ role: "user", content: augmentedPrompt });
+    return best;
+  });
+};
+export const chatWithManuscriptStream = async (
+  threadId: string,
+  userPrompt: string,
+  lang: Language,
+  onChunk: (text: string) => void,
+  { signal, mode = "dialogue", passage }: { signal?: AbortSignal; mode?: ChatMode; passage?: PassageContext } = {}
+): Promise<QuoteCheck[]> => {
+  const chatSession = getChatSession(threadId);
+  let fullResponse = "";
+  try {
     // 🔑 Dynamic System Instruction now includes Axioms!
-    const messages = [
-      { role: "system", content: getSystemInstruction(lang) },
-      ...chatSession.history
-    ];
-    const stream = await groq.chat.completions.create({
-      model: MODEL_NAME,
-      // @ts-ignore
-      messages: messages,
-      stream: true,
-      temperature: 0.2,
-    });
-    let fullResponse = "";
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content || "";
-      if (content) {
-        fullResponse += content;
-        onChunk(content);
-      }
+    const systemInstruction = getSystemInstruction(lang);
+    const available = CONTEXT_TOKEN_BUDGET - RESPONSE_TOKEN_RESERVE - estimateTokens(systemInstruction);
+    const comparing = mode === "compare" && isMultiWork();
+    const relevantChunks = fitToBudget(
+      await retrieveRelevantChunks(
+        comparing
+          ? [userPrompt, ...getWorks().flatMap(w => w.axioms.map(ax => ax.term))].join(" ")
+          : passage ? `${passage.text} ${userPrompt}` : userPrompt,
+        comparing ? Math.min(6, 2 * (companionManuscripts.length + 1)) : 2, comparing),
+      Math.max(0, available * CHUNK_TOKEN_SHARE),
+      chunk => chunk.text
+    );
+    const turnPrompt = buildTurnPrompt(userPrompt, relevantChunks, mode, passage);
+    signal?.throwIfAborted();
+    await compactMemory(chatSession, Math.max(0, available - estimateTokens(turnPrompt)), summarizeTurns);
+    const messages = assembleMessages(systemInstruction, chatSession, turnPrompt);
+    for await (const content of getLLMProvider().streamChat(messages, { temperature: 0.2, signal })) {
+      fullResponse += content;
+      onChunk(content);
     }
     
+    // نخزن السؤال الخام لا الموجّه المعزز بالسياق، حتى لا تتضخم الذاكرة بالمقاطع المسترجعة
+    chatSession.history.push({ role: "user", content: rememberedPrompt(userPrompt, passage) });
     chatSession.history.push({ role: "assistant", content: fullResponse });
+    return verifyAnswerQuotes(fullResponse);
   } catch (error: any) {
+    // الإيقاف من المستخدم ليس خطأً: نحفظ ما وصل من الجواب ليبقى التاريخ متسقاً مع الواجهة
+    if (signal?.aborted) {
+      chatSession.history.push({ role: "user", content: rememberedPrompt(userPrompt, passage) });
+      if (fullResponse) chatSession.history.push({ role: "assistant", content: fullResponse });
+      return verifyAnswerQuotes(fullResponse);
+    }
     console.error("Stream error in Service:", error);
     throw error;
   }
@@ -0,0 +1,147 @@
+import { Annotation, LibraryEntry, PDFData } from "../types";
+import { countDueToday } from "./spacedRepetition";
+
+const DB_NAME = "knowledge-ai-library";
+const DB_VERSION = 1;
+const ENTRIES_STORE = "sanctuaries";
+const FILES_STORE = "files";
+
+export type LibrarySummary = Pick<LibraryEntry, "id" | "name" | "createdAt" | "updatedAt" | "metadata"> & { dueCount: number };
+
+/**
+ * What a review session needs from one manuscript: its axioms, its cards and
+ * their review history.
+ */
+export type StudyDeck = Pick<LibraryEntry, "id" | "name" | "metadata" | "axioms"> &
+  Required<Pick<LibraryEntry, "flashcards" | "reviewLog">>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+        // بايتات المخطوط في مخزن مستقل حتى لا تُقرأ عند عرض القائمة
+        if (!db.objectStoreNames.contains(FILES_STORE)) db.createObjectStore(FILES_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  work: (tx: IDBTransaction) => Promise<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(stores, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  const result = await work(tx);
+  await done;
+  return result;
+};
+
+export const createLibraryId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const saveLibraryEntry = (entry: LibraryEntry, pdf: PDFData): Promise<void> =>
+  saveLibraryEntries([{ entry, pdf }]);
+
+/**
+ * Saves several entries in one transaction: either all of them are written
+ * or, if any write fails, none is.
+ */
+export const saveLibraryEntries = (items: Array<{ entry: LibraryEntry; pdf: PDFData }>): Promise<void> =>
+  runTransaction([ENTRIES_STORE, FILES_STORE], "readwrite", async tx => {
+    for (const { entry, pdf } of items) {
+      tx.objectStore(ENTRIES_STORE).put(entry);
+      tx.objectStore(FILES_STORE).put({ id: entry.id, name: pdf.name, base64: pdf.base64 });
+    }
+  });
+
+/**
+ * Merges `patch` into a stored entry and bumps `updatedAt`. Silently ignores
+ * ids that were deleted in the meantime.
+ */
+export const updateLibraryEntry = (id: string, patch: Partial<Omit<LibraryEntry, "id">>): Promise<void> =>
+  runTransaction([ENTRIES_STORE], "readwrite", async tx => {
+    const store = tx.objectStore(ENTRIES_STORE);
+    const existing: LibraryEntry | undefined = await promisify(store.get(id));
+    if (!existing) return;
+    store.put({ ...existing, ...patch, id, updatedAt: Date.now() });
+  });
+
+export const listLibrary = (): Promise<LibrarySummary[]> =>
+  runTransaction([ENTRIES_STORE], "readonly", async tx => {
+    const entries: LibraryEntry[] = await promisify(tx.objectStore(ENTRIES_STORE).getAll());
+    const now = Date.now();
+    return entries
+      .map(({ id, name, createdAt, updatedAt, metadata, axioms, flashcards }) => ({
+        id, name, createdAt, updatedAt, metadata, dueCount: countDueToday({ axioms, flashcards }, now)
+      }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+export const loadLibraryEntry = (id: string): Promise<{ entry: LibraryEntry; pdf: PDFData } | null> =>
+  runTransaction([ENTRIES_STORE, FILES_STORE], "readonly", async tx => {
+    const [entry, file] = await Promise.all([
+      promisify<LibraryEntry | undefined>(tx.objectStore(ENTRIES_STORE).get(id)),
+      promisify<{ name: string; base64: string } | undefined>(tx.objectStore(FILES_STORE).get(id))
+    ]);
+    if (!entry || !file) return null;
+    return { entry, pdf: { base64: file.base64, name: file.name } };
+  });
+
+/**
+ * تظليلات المخطوط وحواشيه وحدها، دون قراءة بقية المحراب
+ */
+export const loadAnnotations = (id: string): Promise<Annotation[]> =>
+  runTransaction([ENTRIES_STORE], "readonly", async tx => {
+    const entry: LibraryEntry | undefined = await promisify(tx.objectStore(ENTRIES_STORE).get(id));
+    return entry?.annotations || [];
+  });
+
+const toStudyDeck = ({ id, name, metadata, axioms, flashcards, reviewLog }: LibraryEntry): StudyDeck =>
+  ({ id, name, metadata, axioms, flashcards: flashcards || [], reviewLog: reviewLog || [] });
+
+export const loadStudyDeck = (id: string): Promise<StudyDeck | null> =>
+  runTransaction([ENTRIES_STORE], "readonly", async tx => {
+    const entry: LibraryEntry | undefined = await promisify(tx.objectStore(ENTRIES_STORE).get(id));
+    return entry ? toStudyDeck(entry) : null;
+  });
+
+/**
+ * مجموعات البطاقات لكل مخطوطات المكتبة، لطابور مراجعة اليوم
+ */
+export const loadStudyDecks = (): Promise<StudyDeck[]> =>
+  runTransaction([ENTRIES_STORE], "readonly", async tx => {
+    const entries: LibraryEntry[] = await promisify(tx.objectStore(ENTRIES_STORE).getAll());
+    return entries.map(toStudyDeck);
+  });
+
+export const deleteLibraryEntry = (id: string): Promise<void> =>
+  runTransaction([ENTRIES_STORE, FILES_STORE], "readwrite", async tx => {
+    tx.objectStore(ENTRIES_STORE).delete(id);
+    tx.objectStore(FILES_STORE).delete(id);
+  });
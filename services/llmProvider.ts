@@ -0,0 +1,67 @@
+import { createOpenAICompatibleProvider } from "./providers/openAICompatibleProvider";
+import { createProxyProvider } from "./providers/proxyProvider";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  temperature?: number;
+  signal?: AbortSignal;
+  // الطلبات التفاعلية تتقدم على أعمال الخلفية في طابور الخادم
+  priority?: "interactive" | "background";
+}
+
+/**
+ * Snapshot of the server's request queue: how many calls wait at each
+ * priority, how many are starting, and how long until the next one may go.
+ */
+export interface QueueState {
+  interactive: number;
+  background: number;
+  running: number;
+  waitMs: number;
+}
+
+/**
+ * الواجهة الموحدة لأي نموذج لغوي: استجابة JSON كاملة، أو محادثة متدفقة
+ */
+export interface LLMProvider {
+  readonly name: string;
+  completeJSON: (messages: ChatMessage[], options?: CompletionOptions) => Promise<string>;
+  streamChat: (messages: ChatMessage[], options?: CompletionOptions) => AsyncIterable<string>;
+  /**
+   * Only backends that queue requests implement this; local providers omit it.
+   */
+  getQueueState?: () => Promise<QueueState>;
+}
+
+const DEFAULT_LOCAL_BASE_URL = "http://localhost:11434/v1";
+const DEFAULT_LOCAL_MODEL = "llama3.1";
+
+/**
+ * Picks the backend from the build environment. `LLM_PROVIDER=openai-compatible`
+ * targets a local Ollama or llama.cpp server; anything else goes through the
+ * Sanctuary server, which holds the Groq key.
+ */
+const createProviderFromEnv = (): LLMProvider => {
+  if (process.env.LLM_PROVIDER === "openai-compatible") {
+    return createOpenAICompatibleProvider({
+      baseUrl: process.env.LLM_BASE_URL || DEFAULT_LOCAL_BASE_URL,
+      model: process.env.LLM_MODEL || DEFAULT_LOCAL_MODEL
+    });
+  }
+  return createProxyProvider(process.env.API_BASE_URL || undefined);
+};
+
+let activeProvider: LLMProvider | null = null;
+
+export const getLLMProvider = (): LLMProvider => {
+  if (!activeProvider) activeProvider = createProviderFromEnv();
+  return activeProvider;
+};
+
+export const setLLMProvider = (provider: LLMProvider | null) => {
+  activeProvider = provider;
+};
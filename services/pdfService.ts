@@ -0,0 +1,128 @@
+import { ManuscriptPage, OutlineEntry, ProgressHandler } from "../types";
+import { InvalidPdfError } from "./errors";
+
+const PDFJS_VERSION = "4.10.38";
+const PDFJS_URL = `https://esm.sh/pdfjs-dist@${PDFJS_VERSION}`;
+const PDFJS_WORKER_URL = `${PDFJS_URL}/build/pdf.worker.min.mjs`;
+const PDFJS_VIEWER_CSS_URL = `${PDFJS_URL}/web/pdf_viewer.css`;
+
+let pdfjsPromise: Promise<any> | null = null;
+
+/**
+ * تحميل مكتبة pdf.js مرة واحدة فقط ومشاركتها بين العارض والخدمات
+ */
+export const loadPdfJs = (): Promise<any> => {
+  if (!pdfjsPromise) {
+    // @ts-ignore
+    pdfjsPromise = import(/* @vite-ignore */ PDFJS_URL).then((pdfjsLib: any) => {
+      pdfjsLib.GlobalWorkerOptions.workerSrc = PDFJS_WORKER_URL;
+      return pdfjsLib;
+    });
+  }
+  return pdfjsPromise;
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+};
+
+export const openPdfDocument = async (base64: string): Promise<any> => {
+  const pdfjsLib = await loadPdfJs();
+  return pdfjsLib.getDocument({ data: base64ToBytes(base64) }).promise;
+};
+
+// أنماط طبقة النص الرسمية، بنفس إصدار المكتبة، تُضاف مرة واحدة عند أول عرض
+const ensureViewerStyles = () => {
+  if (document.querySelector(`link[href="${PDFJS_VIEWER_CSS_URL}"]`)) return;
+  const link = document.createElement("link");
+  link.rel = "stylesheet";
+  link.href = PDFJS_VIEWER_CSS_URL;
+  document.head.appendChild(link);
+};
+
+/**
+ * Renders the selectable text layer of `page` into `container`. Spans are
+ * laid out for `viewport` and scaled by the `--scale-factor` CSS variable, so
+ * the layer follows the canvas when it is resized.
+ */
+export const renderTextLayer = async (page: any, container: HTMLElement, viewport: any): Promise<void> => {
+  const pdfjsLib = await loadPdfJs();
+  ensureViewerStyles();
+  container.replaceChildren();
+  const textLayer = new pdfjsLib.TextLayer({ textContentSource: page.streamTextContent(), container, viewport });
+  await textLayer.render();
+};
+
+/**
+ * Reads one page's text layer, keeping the line breaks pdf.js reports.
+ */
+export const readPageText = async (pdfDoc: any, pageNum: number): Promise<string> => {
+  const page = await pdfDoc.getPage(pageNum);
+  const content = await page.getTextContent();
+  let text = "";
+  for (const item of content.items as Array<{ str?: string; hasEOL?: boolean }>) {
+    if (typeof item.str !== "string") continue;
+    text += item.str;
+    if (item.hasEOL) text += "\n";
+  }
+  page.cleanup();
+  return text
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+};
+
+/**
+ * استخراج النص محلياً صفحة بصفحة دون الاعتماد على النموذج
+ */
+export const extractPdfPages = async (base64: string, onProgress?: ProgressHandler): Promise<ManuscriptPage[]> => {
+  const pdfDoc = await openPdfDocument(base64).catch(error => {
+    // ملف تالف أو محمي بكلمة مرور؛ أخطاء تحميل المكتبة نفسها تبقى كما هي
+    if (error?.name === "InvalidPDFException" || error?.name === "PasswordException") {
+      throw new InvalidPdfError(error.message, { cause: error });
+    }
+    throw error;
+  });
+  try {
+    const pages: ManuscriptPage[] = [];
+    onProgress?.({ stage: "parsing", done: 0, total: pdfDoc.numPages });
+    for (let pageNum = 1; pageNum <= pdfDoc.numPages; pageNum++) {
+      pages.push({ page: pageNum, text: await readPageText(pdfDoc, pageNum) });
+      onProgress?.({ stage: "parsing", done: pageNum, total: pdfDoc.numPages });
+    }
+    return pages;
+  } finally {
+    pdfDoc.destroy();
+  }
+};
+
+// وجهة مدخل الفهرس: اسم مُعرّف في المستند أو مصفوفة صريحة أولها مرجع الصفحة
+const resolveOutlinePage = async (pdfDoc: any, dest: unknown): Promise<number | null> => {
+  const explicit = typeof dest === "string" ? await pdfDoc.getDestination(dest) : dest;
+  if (!Array.isArray(explicit) || explicit[0] == null) return null;
+  const target = explicit[0];
+  const index = typeof target === "number" ? target : await pdfDoc.getPageIndex(target);
+  return index + 1;
+};
+
+/**
+ * Reads the top level of the PDF's own outline (its bookmarks), in page
+ * order. Most scanned or exported books have none, which yields `[]`.
+ */
+export const extractPdfOutline = async (base64: string): Promise<OutlineEntry[]> => {
+  const pdfDoc = await openPdfDocument(base64);
+  try {
+    const outline: Array<{ title: string; dest: unknown }> = (await pdfDoc.getOutline()) || [];
+    const entries = await Promise.all(outline.map(async item => {
+      const page = await resolveOutlinePage(pdfDoc, item.dest).catch(() => null);
+      return page && item.title.trim() ? { title: item.title.trim(), page } : null;
+    }));
+    return entries.filter((entry): entry is OutlineEntry => entry !== null).sort((a, b) => a.page - b.page);
+  } finally {
+    pdfDoc.destroy();
+  }
+};
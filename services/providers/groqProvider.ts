@@ -0,0 +1,53 @@
+import Groq, { APIConnectionError } from "groq-sdk";
+import { ChatMessage, CompletionOptions, LLMProvider } from "../llmProvider";
+import { MissingKeyError, NetworkError } from "../errors";
+
+const MODEL_NAME = "meta-llama/llama-4-maverick-17b-128e-instruct";
+
+/**
+ * يُستخدم على الخادم فقط: المفتاح يُقرأ من بيئة Node ولا يصل إلى المتصفح
+ */
+export const getGroqClient = () => {
+  const apiKey = process.env.GROQ_API_KEY;
+  if (!apiKey || apiKey === "undefined") throw new MissingKeyError();
+  
+  // إعادة المحاولة يتولاها محدد المعدل في الخادم، لا المكتبة
+  return new Groq({ apiKey, maxRetries: 0 });
+};
+
+// أخطاء الاتصال والمهلة (APIConnectionTimeoutError يرث APIConnectionError) تُصنَّف بنوعها لا باسمها
+const classifyGroqError = (error: unknown): unknown =>
+  error instanceof APIConnectionError ? new NetworkError(error.message, { cause: error }) : error;
+
+export const createGroqProvider = (model: string = MODEL_NAME): LLMProvider => ({
+  name: "groq",
+  completeJSON: async (messages: ChatMessage[], { temperature = 0.2, signal }: CompletionOptions = {}) => {
+    const groq = getGroqClient();
+    const response = await groq.chat.completions.create({
+      model,
+      messages,
+      response_format: { type: "json_object" },
+      temperature,
+    }, { signal }).catch(error => { throw classifyGroqError(error); });
+    const content = response.choices[0]?.message?.content;
+    if (!content) throw new Error("No content returned from Groq");
+    return content;
+  },
+  streamChat: async function* (messages: ChatMessage[], { temperature = 0.2, signal }: CompletionOptions = {}) {
+    const groq = getGroqClient();
+    const stream = await groq.chat.completions.create({
+      model,
+      messages,
+      stream: true,
+      temperature,
+    }, { signal }).catch(error => { throw classifyGroqError(error); });
+    try {
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content || "";
+        if (content) yield content;
+      }
+    } catch (error) {
+      throw classifyGroqError(error);
+    }
+  }
+});
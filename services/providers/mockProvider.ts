@@ -0,0 +1,40 @@
+import { ChatMessage, CompletionOptions, LLMProvider } from "../llmProvider";
+
+export interface ProviderScript {
+  completions?: string[];
+  streams?: string[][];
+}
+
+export interface ScriptedProvider extends LLMProvider {
+  readonly calls: Array<{ kind: "json" | "stream"; messages: ChatMessage[] }>;
+}
+
+/**
+ * مزود وهمي يعيد ردوداً مكتوبة مسبقاً بالترتيب، لتشغيل الخدمات دون شبكة
+ */
+export const createScriptedProvider = ({ completions = [], streams = [] }: ProviderScript): ScriptedProvider => {
+  const calls: ScriptedProvider["calls"] = [];
+  const pendingCompletions = [...completions];
+  const pendingStreams = [...streams];
+
+  return {
+    name: "scripted",
+    calls,
+    completeJSON: async (messages: ChatMessage[], { signal }: CompletionOptions = {}) => {
+      calls.push({ kind: "json", messages });
+      signal?.throwIfAborted();
+      const next = pendingCompletions.shift();
+      if (next === undefined) throw new Error("ScriptedProvider: no completion left in script");
+      return next;
+    },
+    streamChat: async function* (messages: ChatMessage[], { signal }: CompletionOptions = {}) {
+      calls.push({ kind: "stream", messages });
+      const next = pendingStreams.shift();
+      if (next === undefined) throw new Error("ScriptedProvider: no stream left in script");
+      for (const token of next) {
+        signal?.throwIfAborted();
+        yield token;
+      }
+    }
+  };
+};
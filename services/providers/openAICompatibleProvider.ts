@@ -0,0 +1,48 @@
+import { ChatMessage, CompletionOptions, LLMProvider } from "../llmProvider";
+import { readServerSentEvents } from "./sse";
+import { toAppError } from "../errors";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+}
+
+/**
+ * Talks to any server exposing the OpenAI `/chat/completions` API, such as
+ * Ollama (`http://localhost:11434/v1`) or llama.cpp's `llama-server`.
+ */
+export const createOpenAICompatibleProvider = ({ baseUrl, model }: OpenAICompatibleConfig): LLMProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, "")}/chat/completions`;
+
+  const post = async (body: object, signal?: AbortSignal) => {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model, ...body }),
+      signal
+    });
+    if (!response.ok) {
+      throw toAppError({ status: response.status, message: `LLM endpoint returned ${response.status}: ${await response.text()}` });
+    }
+    return response;
+  };
+
+  return {
+    name: "openai-compatible",
+    completeJSON: async (messages: ChatMessage[], { temperature = 0.2, signal }: CompletionOptions = {}) => {
+      const response = await post({ messages, temperature, response_format: { type: "json_object" } }, signal);
+      const json = await response.json();
+      const content = json.choices?.[0]?.message?.content;
+      if (!content) throw new Error(`No content returned from ${endpoint}`);
+      return content;
+    },
+    streamChat: async function* (messages: ChatMessage[], { temperature = 0.2, signal }: CompletionOptions = {}) {
+      const response = await post({ messages, temperature, stream: true }, signal);
+      if (!response.body) throw new Error(`No stream returned from ${endpoint}`);
+      for await (const data of readServerSentEvents(response.body)) {
+        const content = JSON.parse(data).choices?.[0]?.delta?.content || "";
+        if (content) yield content;
+      }
+    }
+  };
+};
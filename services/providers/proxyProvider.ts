@@ -0,0 +1,56 @@
+import { ChatMessage, CompletionOptions, LLMProvider, QueueState } from "../llmProvider";
+import { readServerSentEvents } from "./sse";
+import { NetworkError, createAppError, toAppError } from "../errors";
+
+/**
+ * Calls the Sanctuary server (`server/index.ts`), which holds the API key and
+ * applies rate limiting. The browser never sees a provider credential.
+ */
+export const createProxyProvider = (baseUrl: string = "/api"): LLMProvider => {
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const post = async (path: string, body: object, signal?: AbortSignal) => {
+    let response: Response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        signal
+      });
+    } catch (error: any) {
+      if (error?.name === "AbortError") throw error;
+      throw new NetworkError(error?.message, { cause: error });
+    }
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      const message = payload.error || `SERVER_ERROR_${response.status}`;
+      throw payload.code ? createAppError(payload.code, message) : toAppError({ status: response.status, message });
+    }
+    return response;
+  };
+
+  return {
+    name: "proxy",
+    completeJSON: async (messages: ChatMessage[], { temperature, signal, priority }: CompletionOptions = {}) => {
+      const response = await post("/extract", { messages, temperature, priority }, signal);
+      const { content } = await response.json();
+      if (!content) throw new Error("No content returned from server");
+      return content;
+    },
+    streamChat: async function* (messages: ChatMessage[], { temperature, signal, priority }: CompletionOptions = {}) {
+      const response = await post("/chat", { messages, temperature, priority }, signal);
+      if (!response.body) throw new Error("No stream returned from server");
+      for await (const data of readServerSentEvents(response.body)) {
+        const event = JSON.parse(data);
+        if (event.error) throw event.code ? createAppError(event.code, event.error) : toAppError(new Error(event.error));
+        if (event.content) yield event.content as string;
+      }
+    },
+    getQueueState: async (): Promise<QueueState> => {
+      const response = await fetch(`${root}/queue`);
+      if (!response.ok) throw new Error(`SERVER_ERROR_${response.status}`);
+      return response.json();
+    }
+  };
+};
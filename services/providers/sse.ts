@@ -0,0 +1,26 @@
+/**
+ * قراءة تدفق SSE سطراً بسطر حتى إشارة [DONE]
+ */
+export async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf("\n")) >= 0) {
+        const line = buffer.substring(0, newline).trim();
+        buffer = buffer.substring(newline + 1);
+        if (!line.startsWith("data:")) continue;
+        const data = line.substring(5).trim();
+        if (data === "[DONE]") return;
+        yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
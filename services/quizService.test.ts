@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { DocumentChunk, ManuscriptPage } from "../types";
+import { generateQuiz } from "./quizService";
+import { setLLMProvider } from "./llmProvider";
+import { ScriptedProvider, createScriptedProvider } from "./providers/mockProvider";
+import { ParseFailureError } from "./errors";
+
+const pages: ManuscriptPage[] = [
+  { page: 1, text: "Rivers shape the land over centuries. Water wears down even the hardest rock." },
+  { page: 2, text: "Deltas form where a river slows and drops the sediment it has carried." }
+];
+
+const chunks: DocumentChunk[] = [
+  { text: pages[0].text, startPage: 1, endPage: 1 },
+  { text: `${pages[0].text} ${pages[1].text}`, startPage: 1, endPage: 2 }
+];
+
+const quizWith = async (...replies: unknown[]): Promise<{ provider: ScriptedProvider; run: ReturnType<typeof generateQuiz> }> => {
+  const provider = createScriptedProvider({ completions: replies.map(reply => typeof reply === "string" ? reply : JSON.stringify(reply)) });
+  setLLMProvider(provider);
+  return { provider, run: generateQuiz({ chunks, pages }, { from: 1, to: 2 }, 2) };
+};
+
+const choiceQuestion = {
+  source: 1,
+  kind: "multiple_choice",
+  question: "What wears down rock?",
+  choices: ["Wind", "Water", "Ice", "Fire"],
+  answer_index: 1,
+  answer: "Water, over centuries.",
+  quote: "Water wears down even the hardest rock."
+};
+
+describe("generateQuiz", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("keeps valid questions with the correct answer after shuffling", async () => {
+    const { run } = await quizWith({ questions: [choiceQuestion] });
+    const [question] = await run;
+    expect(question.kind).toBe("multiple_choice");
+    expect(question.choices).toHaveLength(4);
+    expect(question.choices![question.answerIndex!]).toBe("Water");
+    expect(question.source).toMatchObject({ quote: "Water wears down even the hardest rock.", page: 1, verified: true });
+  });
+
+  it("drops malformed items and out-of-range answer indices", async () => {
+    const { run } = await quizWith({
+      questions: [
+        { ...choiceQuestion, answer_index: 4 },
+        { ...choiceQuestion, answer_index: -1 },
+        { ...choiceQuestion, question: "" },
+        { ...choiceQuestion, source: 3 },
+        { ...choiceQuestion, kind: "true_false" },
+        null,
+        { source: 2, kind: "short_answer", question: "Where do deltas form?", answer: "Where a river slows.", quote: "Deltas form where a river slows and drops the sediment it has carried." }
+      ]
+    });
+    const questions = await run;
+    expect(questions.map(q => q.question)).toEqual(["Where do deltas form?"]);
+    expect(questions[0].source).toMatchObject({ page: 2, verified: true });
+  });
+
+  it("falls back to the passage's first page when the quote cannot be found", async () => {
+    const { run } = await quizWith({
+      questions: [{ source: 2, kind: "short_answer", question: "Why do deltas form?", answer: "Sediment.", quote: "Mountains rise when continents collide beneath the ocean." }]
+    });
+    const [question] = await run;
+    expect(question.source).toMatchObject({ page: 1, verified: false });
+  });
+
+  it("asks for a repair when no question is usable, then gives up", async () => {
+    const { provider, run } = await quizWith("not json", { questions: [{ ...choiceQuestion, answer_index: 9 }] });
+    await expect(run).rejects.toBeInstanceOf(ParseFailureError);
+    expect(provider.calls).toHaveLength(2);
+    // الرسائل مصفوفة واحدة تتراكم عبر المحاولات: [3] هو طلب الإصلاح الأول
+    expect(provider.calls[1].messages[3].content).toContain("$ is not valid JSON");
+  });
+});
@@ -0,0 +1,177 @@
+import { DocumentChunk, ManuscriptPage, OutlineEntry, PageRange, QuizGrade, QuizQuestion, QuizVerdict } from "../types";
+import { ChatMessage, getLLMProvider } from "./llmProvider";
+import { createQuoteIndex } from "./quoteVerifier";
+import { createLibraryId } from "./libraryStore";
+import { ParseFailureError } from "./errors";
+import { SchemaIssue } from "./extractionSchema";
+
+export const QUIZ_SIZES = [5, 10];
+const CHOICE_COUNT = 4;
+// المحاولة الأولى ثم طلب إصلاح واحد
+const MAX_QUIZ_ATTEMPTS = 2;
+const VERDICTS: QuizVerdict[] = ["correct", "partial", "incorrect"];
+
+const EXAMINER_SYSTEM = `You are a rigorous examiner. You write and grade questions strictly from the manuscript passages you are given, never from outside knowledge. Reply with JSON only.`;
+
+/**
+ * Turns the PDF outline into chapters with page ranges: each chapter runs up
+ * to the page before the next one starts.
+ */
+export const chaptersFromOutline = (outline: OutlineEntry[], lastPage: number): Array<OutlineEntry & PageRange> =>
+  outline.map((entry, i) => ({
+    ...entry,
+    from: entry.page,
+    to: Math.max(entry.page, Math.min(lastPage, (outline[i + 1]?.page ?? lastPage + 1) - 1))
+  }));
+
+export const chunksInRange = (chunks: DocumentChunk[], range: PageRange): DocumentChunk[] =>
+  chunks.filter(chunk => chunk.endPage >= range.from && chunk.startPage <= range.to);
+
+// عينة موزعة بالتساوي على النطاق حتى لا تتركز الأسئلة في أوله
+const sampleEvenly = <T>(items: T[], count: number): T[] => {
+  if (items.length <= count) return items;
+  const stride = items.length / count;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * stride + stride / 2)]);
+};
+
+const pageLabel = (chunk: DocumentChunk) => chunk.startPage === chunk.endPage ? `p. ${chunk.startPage}` : `pp. ${chunk.startPage}-${chunk.endPage}`;
+
+const QUIZ_PROMPT = (passages: DocumentChunk[]) => `Write exactly one quiz question for each numbered passage below, to check a student's understanding of the manuscript.
+- Use "multiple_choice" for odd-numbered passages and "short_answer" for even-numbered ones.
+- A multiple_choice question has exactly ${CHOICE_COUNT} choices: one correct, three plausible but wrong.
+- Each question must be answerable from its own passage alone. Test ideas and arguments, not trivia such as names of chapters or page numbers.
+- "answer" is the reference answer; for multiple_choice, explain why the correct choice is right.
+- "quote" is the sentence of the passage that answers the question, copied VERBATIM.
+- Write everything in the SAME LANGUAGE as the passages.
+Return ONLY JSON with this structure:
+{ "questions": [{ "source": 1, "kind": "multiple_choice", "question": "...", "choices": ["...", "...", "...", "..."], "answer_index": 0, "answer": "...", "quote": "..." }] }
+PASSAGES:
+${passages.map((chunk, i) => `[${i + 1}] (${pageLabel(chunk)})\n${chunk.text}`).join("\n\n---\n\n")}`;
+
+const REPAIR_PROMPT = (issues: SchemaIssue[]) => `Your previous reply did not match the required JSON structure:
+${issues.map(i => `- ${i.path} ${i.message}`).join("\n")}
+Return the corrected JSON ONLY, with one question per passage.`;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === "string" && value.trim().length > 0;
+
+// النموذج يميل إلى وضع الجواب الصحيح أولاً، فتُخلط الخيارات محلياً
+const shuffleChoices = (choices: string[], answerIndex: number): { choices: string[]; answerIndex: number } => {
+  const order = choices.map((_, i) => i);
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return { choices: order.map(i => choices[i]), answerIndex: order.indexOf(answerIndex) };
+};
+
+/**
+ * Validates the model's questions and ties each one to the passage it came
+ * from. The answering quote is located in the manuscript to get its real
+ * page; invalid questions are reported and dropped.
+ */
+const readQuestions = (raw: string, passages: DocumentChunk[], pages: ManuscriptPage[], issues: SchemaIssue[]): QuizQuestion[] => {
+  let data: any;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    issues.push({ path: "$", message: `is not valid JSON (${(error as Error).message})` });
+    return [];
+  }
+  if (!Array.isArray(data?.questions)) {
+    issues.push({ path: "questions", message: "must be an array" });
+    return [];
+  }
+  const index = createQuoteIndex(pages);
+  return data.questions.flatMap((item: any, i: number): QuizQuestion[] => {
+    const path = `questions[${i}]`;
+    const chunk = passages[Number(item?.source) - 1];
+    if (!chunk) {
+      issues.push({ path: `${path}.source`, message: `must be a passage number from 1 to ${passages.length}` });
+      return [];
+    }
+    const missing = (["question", "answer", "quote"] as const).filter(field => !isNonEmptyString(item[field]));
+    missing.forEach(field => issues.push({ path: `${path}.${field}`, message: "must be a non-empty string" }));
+    if (missing.length > 0) return [];
+    const location = index.locate(item.quote);
+    const base = {
+      id: createLibraryId(),
+      question: item.question.trim(),
+      answer: item.answer.trim(),
+      source: { passage: chunk.text, quote: item.quote.trim(), page: location?.page ?? chunk.startPage, verified: !!location }
+    };
+    if (item.kind === "short_answer") return [{ ...base, kind: "short_answer" }];
+    const choices = Array.isArray(item.choices) ? item.choices.filter(isNonEmptyString).map((choice: string) => choice.trim()) : [];
+    const answerIndex = Number(item.answer_index);
+    if (item.kind !== "multiple_choice" || choices.length < 2 || !Number.isInteger(answerIndex) || !choices[answerIndex]) {
+      issues.push({ path, message: "must be a short_answer, or a multiple_choice with choices and a valid answer_index" });
+      return [];
+    }
+    return [{ ...base, kind: "multiple_choice", ...shuffleChoices(choices, answerIndex) }];
+  });
+};
+
+/**
+ * Writes a quiz over `range`: passages are sampled evenly from the chunks in
+ * the range, and the model writes one question per passage, alternating
+ * multiple choice and short answer.
+ */
+export const generateQuiz = async (
+  { chunks, pages }: { chunks: DocumentChunk[]; pages: ManuscriptPage[] },
+  range: PageRange,
+  count: number,
+  { signal }: { signal?: AbortSignal } = {}
+): Promise<QuizQuestion[]> => {
+  const passages = sampleEvenly(chunksInRange(chunks, range), count);
+  if (passages.length === 0) throw new ParseFailureError("QUIZ_RANGE_EMPTY");
+  const messages: ChatMessage[] = [
+    { role: "system", content: EXAMINER_SYSTEM },
+    { role: "user", content: QUIZ_PROMPT(passages) }
+  ];
+  for (let attempt = 1; attempt <= MAX_QUIZ_ATTEMPTS; attempt++) {
+    const raw = await getLLMProvider().completeJSON(messages, { temperature: 0.4, signal, priority: "interactive" });
+    const issues: SchemaIssue[] = [];
+    const questions = readQuestions(raw, passages, pages, issues);
+    if (questions.length > 0) {
+      if (issues.length > 0) console.warn("Quiz output had invalid questions, dropped:", issues);
+      return questions;
+    }
+    console.warn(`Quiz attempt ${attempt}/${MAX_QUIZ_ATTEMPTS} rejected:`, issues);
+    messages.push({ role: "assistant", content: raw }, { role: "user", content: REPAIR_PROMPT(issues) });
+  }
+  throw new ParseFailureError("EMPTY_RESULT");
+};
+
+/**
+ * يصحح اختيار الطالب محلياً دون استدعاء النموذج
+ */
+export const gradeChoice = (question: QuizQuestion, choice: number): QuizGrade => ({
+  verdict: choice === question.answerIndex ? "correct" : "incorrect",
+  feedback: question.answer
+});
+
+const GRADING_PROMPT = (question: QuizQuestion, response: string) => `Grade a student's answer using ONLY the manuscript passage below.
+PASSAGE (p. ${question.source.page}):
+${question.source.passage}
+QUESTION:
+${question.question}
+REFERENCE ANSWER:
+${question.answer}
+STUDENT ANSWER:
+${response}
+Verdict: "correct" if the answer captures the key idea of the reference answer, even in other words; "partial" if it is on the right track but misses or confuses part of it; "incorrect" otherwise.
+Feedback: 1 to 3 sentences saying what the student got right and what is missing or wrong, pointing to what the passage says. Write it in the SAME LANGUAGE as the question.
+Return ONLY JSON: { "verdict": "correct" | "partial" | "incorrect", "feedback": "..." }`;
+
+/**
+ * Grades a free-text answer against the question's source passage rather
+ * than against the model's own knowledge.
+ */
+export const gradeShortAnswer = async (question: QuizQuestion, response: string, { signal }: { signal?: AbortSignal } = {}): Promise<QuizGrade> => {
+  const raw = await getLLMProvider().completeJSON([
+    { role: "system", content: EXAMINER_SYSTEM },
+    { role: "user", content: GRADING_PROMPT(question, response.trim()) }
+  ], { temperature: 0, signal, priority: "interactive" });
+  const data = JSON.parse(raw);
+  if (!VERDICTS.includes(data?.verdict) || !isNonEmptyString(data?.feedback)) throw new ParseFailureError("INVALID_GRADE");
+  return { verdict: data.verdict, feedback: data.feedback.trim() };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { ManuscriptPage } from "../types";
+import { createQuoteIndex, extractQuotes } from "./quoteVerifier";
+
+const pages: ManuscriptPage[] = [
+  { page: 1, text: "The river remembers every stone it has carried toward the distant sea." },
+  { page: 2, text: "Patience is the quiet discipline of waiting without surrendering hope. Those who plant" },
+  { page: 3, text: "orchards rarely eat the first harvest themselves." },
+  { page: 4, text: "العِلْمُ نُورٌ يَهْدِي السّالِكَ فِي ظُلُماتِ الجَهْلِ، والمَعْرِفَةُ طَرِيقُ الحِكْمَةِ." }
+];
+
+const index = createQuoteIndex(pages);
+
+describe("createQuoteIndex", () => {
+  it("finds an exact quote on its page", () => {
+    expect(index.locate("Patience is the quiet discipline of waiting without surrendering hope.")).toEqual({ page: 2, score: 1 });
+  });
+
+  it("ignores punctuation, case and line breaks", () => {
+    expect(index.locate("the RIVER remembers —\nevery stone; it has carried toward the distant sea")).toEqual({ page: 1, score: 1 });
+  });
+
+  it("ignores Arabic diacritics and letter variants", () => {
+    expect(index.locate("العلم نور يهدي السالك في ظلمات الجهل")?.page).toBe(4);
+    expect(index.locate("والمعرفة طريق الحكمة")).toEqual({ page: 4, score: 1 });
+  });
+
+  it("rejects a paraphrase below the match threshold", () => {
+    expect(index.locate("Patience means calmly enduring delays while keeping optimism alive.")).toBeNull();
+    expect(index.locate("The ocean forgets the pebbles that rivers bring.")).toBeNull();
+  });
+
+  it("attributes a quote crossing a page break to the page it starts on", () => {
+    expect(index.locate("Those who plant orchards rarely eat the first harvest themselves.")?.page).toBe(2);
+    expect(index.locate("orchards rarely eat the first harvest themselves")?.page).toBe(3);
+  });
+});
+
+describe("extractQuotes", () => {
+  it("collects real quotations once and skips fragments of fewer than three terms", () => {
+    const answer = `The author writes "Patience is the quiet discipline of waiting" [p. 2], «العلم نور يهدي السالك» and again "Patience is the quiet discipline of waiting", speaking "of the world".`;
+    expect(extractQuotes(answer)).toEqual(["Patience is the quiet discipline of waiting", "العلم نور يهدي السالك"]);
+  });
+});
@@ -0,0 +1,96 @@
+import { ManuscriptPage } from "../types";
+import { tokenize } from "./textNormalizer";
+
+// علامات الاقتباس الشائعة في الإنجليزية والعربية
+const QUOTE_PATTERN = /"([^"\n]{12,}?)"|“([^”\n]{12,}?)”|«([^»\n]{12,}?)»/g;
+const MIN_QUOTE_TERMS = 3;
+const MATCH_THRESHOLD = 0.8;
+const ANCHOR_TERMS = 3;
+const MAX_CANDIDATES = 200;
+
+export interface QuoteLocation {
+  page: number;
+  score: number;
+}
+
+export interface QuoteIndex {
+  locate: (quote: string) => QuoteLocation | null;
+}
+
+/**
+ * Pulls the quoted passages out of an answer. Short fragments such as a
+ * quoted single term are skipped: only real quotations are worth checking.
+ */
+export const extractQuotes = (answer: string): string[] => {
+  const quotes: string[] = [];
+  for (const match of answer.matchAll(QUOTE_PATTERN)) {
+    const quote = (match[1] ?? match[2] ?? match[3]).trim();
+    if (tokenize(quote).length >= MIN_QUOTE_TERMS && !quotes.includes(quote)) quotes.push(quote);
+  }
+  return quotes;
+};
+
+// أطول تتابع مشترك بين الاقتباس ونافذة من النص، بذاكرة صفين فقط
+const longestCommonSubsequence = (a: string[], b: string[], from: number, to: number): number => {
+  let previous = new Uint16Array(to - from + 1);
+  let current = new Uint16Array(to - from + 1);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = from; j < to; j++) {
+      const k = j - from + 1;
+      current[k] = a[i] === b[j] ? previous[k - 1] + 1 : Math.max(previous[k], current[k - 1]);
+    }
+    [previous, current] = [current, previous];
+    current.fill(0);
+  }
+  return previous[to - from];
+};
+
+/**
+ * Indexes the manuscript as one stream of normalized terms, so a quote is
+ * matched regardless of whitespace, line breaks, diacritics or letter variants
+ * (the normalization `tokenize` applies). A quote counts as found when at
+ * least 80% of its terms appear in order within a window of the text.
+ */
+export const createQuoteIndex = (pages: ManuscriptPage[]): QuoteIndex => {
+  const terms: string[] = [];
+  const termPages: number[] = [];
+  const positions = new Map<string, number[]>();
+  for (const page of pages) {
+    for (const term of tokenize(page.text)) {
+      if (!positions.has(term)) positions.set(term, []);
+      positions.get(term)!.push(terms.length);
+      terms.push(term);
+      termPages.push(page.page);
+    }
+  }
+
+  const locate = (quote: string): QuoteLocation | null => {
+    const quoteTerms = tokenize(quote);
+    if (quoteTerms.length === 0 || terms.length === 0) return null;
+    const slack = Math.ceil(quoteTerms.length * 0.25);
+    // نرسو على أندر كلمات الاقتباس حتى لا نفحص كل موضع في الكتاب
+    const anchors = quoteTerms
+      .map((term, offset) => ({ offset, hits: positions.get(term) || [] }))
+      .filter(anchor => anchor.hits.length > 0)
+      .sort((a, b) => a.hits.length - b.hits.length)
+      .slice(0, ANCHOR_TERMS);
+    const starts = new Set<number>();
+    for (const anchor of anchors) {
+      for (const hit of anchor.hits.slice(0, MAX_CANDIDATES)) starts.add(Math.max(0, hit - anchor.offset - slack));
+    }
+
+    let best: QuoteLocation | null = null;
+    for (const start of starts) {
+      const end = Math.min(terms.length, start + quoteTerms.length + 2 * slack);
+      const score = longestCommonSubsequence(quoteTerms, terms, start, end) / quoteTerms.length;
+      if (score >= MATCH_THRESHOLD && (!best || score > best.score)) {
+        // الصفحة هي صفحة أول كلمة مطابقة، لا بداية النافذة التي قد تسبقها
+        const firstMatch = terms.slice(start, end).findIndex(term => quoteTerms.includes(term));
+        best = { page: termPages[start + Math.max(0, firstMatch)], score };
+      }
+    }
+    return best;
+  };
+
+  return { locate };
+};
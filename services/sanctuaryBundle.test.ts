@@ -0,0 +1,116 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "vitest";
+import { LibraryEntry, PDFData } from "../types";
+import { loadLibraryEntry, saveLibraryEntry } from "./libraryStore";
+import { RawBundle, createSanctuaryBundle, importSanctuaryBundle, migrateBundle, parseSanctuaryBundle } from "./sanctuaryBundle";
+import { InvalidBundleError, MissingManuscriptError } from "./errors";
+
+const pdfOf = (name: string): PDFData => ({ name, base64: btoa(`%PDF-1.4 ${name}`) });
+
+const entryOf = (id: string, name: string, extra: Partial<LibraryEntry> = {}): LibraryEntry => ({
+  id,
+  name,
+  createdAt: 1000,
+  updatedAt: 2000,
+  pages: [{ page: 1, text: `Text of ${name}` }],
+  chunks: [{ text: `Text of ${name}`, startPage: 1, endPage: 1 }],
+  axioms: [{ term: "Term", definition: "Definition", significance: "Significance", evidence: [] }],
+  metadata: { title: name },
+  snippets: [],
+  threads: [{ id: `${id}-thread`, title: "First", createdAt: 1000, messages: [{ role: "user", content: "Why?" }, { role: "model", content: "Because." }] }],
+  activeThreadId: `${id}-thread`,
+  ...extra
+});
+
+const mainEntry = entryOf("main", "Main.pdf", {
+  // W2 أُزيل من المحراب؛ بقي W3 برقمه
+  companions: [{ id: "companion", work: 3 }],
+  annotations: [{ id: "a1", page: 1, text: "Text", color: "amber", rects: [{ x: 0.1, y: 0.1, width: 0.2, height: 0.05 }], createdAt: 1500 }],
+  flashcards: [{ id: "c1", front: "Term", back: "Definition", axiomTerm: "Term", createdAt: 1500, schedule: { ease: 2.5, interval: 1, repetitions: 1, lapses: 0, due: 90000 } }],
+  reviewLog: [{ cardId: "c1", grade: "good", reviewedAt: 1600, interval: 1 }]
+});
+
+const saveSanctuary = async () => {
+  await saveLibraryEntry(entryOf("companion", "Companion.pdf"), pdfOf("Companion.pdf"));
+  await saveLibraryEntry(mainEntry, pdfOf("Main.pdf"));
+};
+
+describe("sanctuary bundles", () => {
+  it("round-trips a sanctuary, its companion and their study data", async () => {
+    await saveSanctuary();
+    const bundle = parseSanctuaryBundle(JSON.stringify(await createSanctuaryBundle("main", { includeFiles: true })));
+    const id = await importSanctuaryBundle(bundle);
+
+    const imported = await loadLibraryEntry(id);
+    expect(imported).not.toBeNull();
+    const { entry, pdf } = imported!;
+    expect(entry.id).not.toBe("main");
+    expect(pdf).toEqual(pdfOf("Main.pdf"));
+    expect(entry.axioms).toEqual(mainEntry.axioms);
+    expect(entry.annotations).toEqual(mainEntry.annotations);
+    expect(entry.flashcards).toEqual(mainEntry.flashcards);
+    expect(entry.reviewLog).toEqual(mainEntry.reviewLog);
+    expect(entry.threads[0].messages).toEqual(mainEntry.threads[0].messages);
+    expect(entry.activeThreadId).toBe(entry.threads[0].id);
+
+    expect(entry.companions).toHaveLength(1);
+    expect(entry.companions![0].work).toBe(3);
+    const companion = await loadLibraryEntry(entry.companions![0].id);
+    expect(companion?.entry.name).toBe("Companion.pdf");
+  });
+
+  it("matches PDFs exported by reference on their digest", async () => {
+    await saveSanctuary();
+    const bundle = await createSanctuaryBundle("main", { includeFiles: false });
+    expect(bundle.works.every(work => work.file.base64 === undefined)).toBe(true);
+
+    await expect(importSanctuaryBundle(bundle, [pdfOf("Main.pdf")])).rejects.toBeInstanceOf(MissingManuscriptError);
+    const id = await importSanctuaryBundle(bundle, [pdfOf("Companion.pdf"), { ...pdfOf("Main.pdf"), name: "renamed.pdf" }]);
+    expect((await loadLibraryEntry(id))?.pdf.name).toBe("renamed.pdf");
+  });
+
+  it("refuses malformed flashcards", async () => {
+    await saveSanctuary();
+    const bundle = await createSanctuaryBundle("main", { includeFiles: true });
+    const broken = { ...bundle, works: [{ ...bundle.works[0], flashcards: [{ id: "c1", front: "Term" }] }] };
+    expect(() => parseSanctuaryBundle(JSON.stringify(broken))).toThrow(InvalidBundleError);
+  });
+
+  it("refuses malformed pages, chunks, axioms and relations", async () => {
+    await saveSanctuary();
+    const bundle = await createSanctuaryBundle("main", { includeFiles: true });
+    const withState = (state: Record<string, unknown>) =>
+      JSON.stringify({ ...bundle, works: [{ ...bundle.works[0], state: { ...bundle.works[0].state, ...state } }] });
+    const relation = { from: 0, to: 0, type: "depends_on", explanation: "Itself", evidence: [] };
+
+    expect(() => parseSanctuaryBundle(withState({ pages: [{ page: 1 }] }))).toThrow("pages[0] is malformed");
+    expect(() => parseSanctuaryBundle(withState({ chunks: [{ endPage: 1 }] }))).toThrow("chunks[0] is malformed");
+    expect(() => parseSanctuaryBundle(withState({ axioms: [{ definition: "No term", significance: "" }] }))).toThrow("axioms[0] is malformed");
+    expect(() => parseSanctuaryBundle(withState({ axioms: [{ ...mainEntry.axioms[0], evidence: [{ quote: "q" }] }] }))).toThrow(InvalidBundleError);
+    expect(() => parseSanctuaryBundle(withState({ relations: [{ ...relation, to: 1 }] }))).toThrow("relations[0] is malformed");
+    expect(parseSanctuaryBundle(withState({ relations: [relation] })).works[0].state.relations).toEqual([relation]);
+  });
+});
+
+describe("bundle migrations", () => {
+  it("numbers the works of a version 1 bundle by their position", async () => {
+    await saveSanctuary();
+    const current = await createSanctuaryBundle("main", { includeFiles: true });
+    const v1 = { ...current, version: 1, works: current.works.map(({ work, ...rest }) => rest) };
+    const bundle = parseSanctuaryBundle(JSON.stringify(v1));
+    expect(bundle.works.map(work => work.work)).toEqual([1, 2]);
+  });
+
+  it("runs every step of the chain in order", () => {
+    const migrations = {
+      1: (bundle: RawBundle) => ({ ...bundle, steps: ["1->2"] }),
+      2: (bundle: RawBundle) => ({ ...bundle, steps: [...(bundle.steps as string[]), "2->3"] })
+    };
+    const migrated = migrateBundle({ version: 1 }, migrations, 3);
+    expect(migrated).toEqual({ version: 3, steps: ["1->2", "2->3"] });
+  });
+
+  it("refuses a version with no migration step", () => {
+    expect(() => migrateBundle({ version: 0 }, {}, 2)).toThrow(InvalidBundleError);
+  });
+});
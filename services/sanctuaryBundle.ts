@@ -0,0 +1,311 @@
+import {
+  Annotation, Axiom, AxiomRelation, AxiomRelationType, ChatThread, DocumentChunk, Flashcard, HighlightColor, LibraryEntry,
+  ManuscriptMetadata, ManuscriptPage, ManuscriptState, PDFData, ReviewGrade, ReviewLog
+} from "../types";
+import { createLibraryId, loadLibraryEntry, saveLibraryEntries } from "./libraryStore";
+import { base64ToBytes } from "./pdfService";
+import { InvalidBundleError, MissingManuscriptError } from "./errors";
+
+export const BUNDLE_FORMAT = "knowledge-ai-sanctuary";
+export const BUNDLE_VERSION = 2;
+export const BUNDLE_EXTENSION = ".sanctuary.json";
+
+/**
+ * The PDF behind a work. `base64` is omitted when the bundle was exported
+ * by reference; the file is then matched on import by its SHA-256 digest.
+ */
+export interface BundledFile {
+  name: string;
+  sha256: string;
+  size: number;
+  base64?: string;
+}
+
+export interface BundledWork {
+  file: BundledFile;
+  // رقم العمل في الإحالات: 1 للمخطوط الأساسي، ثم أرقام المرافقات كما هي في المحراب
+  work: number;
+  name: string;
+  createdAt: number;
+  state: ManuscriptState;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  annotations: Annotation[];
+  flashcards: Flashcard[];
+  reviewLog: ReviewLog[];
+}
+
+/**
+ * A whole sanctuary as one JSON document: the primary work first, then its
+ * companion works in order. Everything extraction produced travels with it,
+ * so importing never calls the model.
+ */
+export interface SanctuaryBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exportedAt: number;
+  works: BundledWork[];
+}
+
+const isArray = (value: unknown): value is unknown[] => Array.isArray(value);
+const isObject = (value: unknown): value is Record<string, unknown> => !!value && typeof value === "object" && !isArray(value);
+const isString = (value: unknown): value is string => typeof value === "string";
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value);
+
+/**
+ * A bundle as read from disk, before migration and validation.
+ */
+export type RawBundle = { version: number } & Record<string, unknown>;
+
+export type BundleMigration = (bundle: RawBundle) => RawBundle;
+
+/**
+ * خطوات الترحيل: المفتاح هو الإصدار الذي تُرفع منه الحزمة إلى الإصدار التالي.
+ * عند تغيير شكل الحزمة يُرفع BUNDLE_VERSION وتُضاف هنا خطوة من الإصدار السابق،
+ * فتبقى الحزم القديمة قابلة للاستيراد عبر سلسلة الخطوات كلها
+ */
+const MIGRATIONS: Record<number, BundleMigration> = {
+  // الإصدار الأول رقّم الأعمال بترتيبها في الحزمة
+  1: bundle => ({
+    ...bundle,
+    works: isArray(bundle.works) ? bundle.works.map((work, i) => isObject(work) ? { ...work, work: i + 1 } : work) : bundle.works
+  })
+};
+
+/**
+ * Runs the migration steps from the bundle's version up to `targetVersion`.
+ * A missing step means the version was never published and is refused.
+ */
+export const migrateBundle = (
+  data: RawBundle,
+  migrations: Record<number, BundleMigration> = MIGRATIONS,
+  targetVersion: number = BUNDLE_VERSION
+): RawBundle => {
+  let bundle = data;
+  while (bundle.version < targetVersion) {
+    const step = migrations[bundle.version];
+    if (!step) throw new InvalidBundleError(`BUNDLE_VERSION_UNSUPPORTED: ${bundle.version}`);
+    bundle = { ...step(bundle), version: bundle.version + 1 };
+  }
+  return bundle;
+};
+
+const sha256 = async (base64: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", base64ToBytes(base64).buffer as ArrayBuffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const describeFile = async (pdf: PDFData, includeFile: boolean): Promise<BundledFile> => ({
+  name: pdf.name,
+  sha256: await sha256(pdf.base64),
+  size: base64ToBytes(pdf.base64).length,
+  ...(includeFile ? { base64: pdf.base64 } : {})
+});
+
+const toBundledWork = async ({ entry, pdf }: { entry: LibraryEntry; pdf: PDFData }, work: number, includeFile: boolean): Promise<BundledWork> => ({
+  file: await describeFile(pdf, includeFile),
+  work,
+  name: entry.name,
+  createdAt: entry.createdAt,
+  state: { pages: entry.pages, chunks: entry.chunks, axioms: entry.axioms, metadata: entry.metadata, snippets: entry.snippets, ...(entry.relations ? { relations: entry.relations } : {}) },
+  threads: entry.threads,
+  activeThreadId: entry.activeThreadId,
+  annotations: entry.annotations || [],
+  flashcards: entry.flashcards || [],
+  reviewLog: entry.reviewLog || []
+});
+
+/**
+ * Packs a stored sanctuary and its companion works. With `includeFiles` off
+ * only a reference to each PDF is written, which keeps the bundle small.
+ */
+export const createSanctuaryBundle = async (id: string, { includeFiles }: { includeFiles: boolean }): Promise<SanctuaryBundle> => {
+  const main = await loadLibraryEntry(id);
+  if (!main) throw new InvalidBundleError("SANCTUARY_NOT_FOUND");
+  const refs = main.entry.companions || [];
+  const companions = await Promise.all(refs.map(ref => loadLibraryEntry(ref.id)));
+  const loaded = [{ ...main, work: 1 }, ...companions.flatMap((item, i) => item ? [{ ...item, work: refs[i].work }] : [])];
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    works: await Promise.all(loaded.map(item => toBundledWork(item, item.work, includeFiles)))
+  };
+};
+
+const HIGHLIGHT_COLORS: HighlightColor[] = ["amber", "emerald", "sky", "rose"];
+const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+const RELATION_TYPES: AxiomRelationType[] = ["depends_on", "contradicts", "exemplifies", "leads_to"];
+
+/**
+ * يتحقق من كل عنصر في مصفوفة، فيرفض الحزمة كلها عند أول عنصر معيب بدل أن يخزن بيانات تكسر الواجهة لاحقاً
+ */
+const readList = <T>(value: unknown, path: string, isValid: (item: Record<string, unknown>) => boolean): T[] => {
+  if (value === undefined) return [];
+  if (!isArray(value)) throw new InvalidBundleError(`${path} must be an array`);
+  value.forEach((item, i) => {
+    if (!isObject(item) || !isValid(item)) throw new InvalidBundleError(`${path}[${i}] is malformed`);
+  });
+  return value as T[];
+};
+
+const isOptionalString = (value: unknown): boolean => value === undefined || isString(value);
+
+const isPage = (page: Record<string, unknown>): boolean => Number.isInteger(page.page) && isString(page.text);
+
+const isChunk = (chunk: Record<string, unknown>): boolean =>
+  isString(chunk.text) && Number.isInteger(chunk.startPage) && Number.isInteger(chunk.endPage) &&
+  (chunk.work === undefined || Number.isInteger(chunk.work));
+
+const isEvidence = (evidence: unknown): boolean => isObject(evidence) && isString(evidence.quote) && Number.isInteger(evidence.page);
+
+const isAxiom = (axiom: Record<string, unknown>): boolean =>
+  isString(axiom.term) && isString(axiom.definition) && isString(axiom.significance) &&
+  (axiom.evidence === undefined || (isArray(axiom.evidence) && axiom.evidence.every(isEvidence)));
+
+// طرفا العلاقة فهرسان في قائمة البديهيات، فيجب أن يقعا داخلها
+const isRelationAmong = (axiomCount: number) => (relation: Record<string, unknown>): boolean => {
+  const inRange = (index: unknown) => Number.isInteger(index) && (index as number) >= 0 && (index as number) < axiomCount;
+  return inRange(relation.from) && inRange(relation.to) && RELATION_TYPES.includes(relation.type as AxiomRelationType) &&
+    isString(relation.explanation) && isArray(relation.evidence) && relation.evidence.every(isEvidence);
+};
+
+const readState = (state: unknown, path: string): ManuscriptState => {
+  if (!isObject(state) || state.pages === undefined || state.chunks === undefined || state.axioms === undefined || !isObject(state.metadata)) {
+    throw new InvalidBundleError(`${path} is incomplete`);
+  }
+  const { metadata } = state;
+  if (![metadata.title, metadata.author, metadata.chapters, metadata.summary].every(isOptionalString)) {
+    throw new InvalidBundleError(`${path}.metadata is malformed`);
+  }
+  if (state.snippets !== undefined && !(isArray(state.snippets) && state.snippets.every(isString))) {
+    throw new InvalidBundleError(`${path}.snippets is malformed`);
+  }
+  const axioms = readList<Axiom>(state.axioms, `${path}.axioms`, isAxiom);
+  return {
+    pages: readList<ManuscriptPage>(state.pages, `${path}.pages`, isPage),
+    chunks: readList<DocumentChunk>(state.chunks, `${path}.chunks`, isChunk),
+    axioms,
+    metadata: metadata as ManuscriptMetadata,
+    snippets: (state.snippets as string[] | undefined) || [],
+    // غياب العلاقات يعني أنها لم تُستخرج بعد، فلا يُحوَّل إلى قائمة فارغة
+    relations: state.relations === undefined ? undefined : readList<AxiomRelation>(state.relations, `${path}.relations`, isRelationAmong(axioms.length))
+  };
+};
+
+const isMessage = (message: unknown): boolean =>
+  isObject(message) && (message.role === "user" || message.role === "model") && isString(message.content);
+
+const isThread = (thread: Record<string, unknown>): boolean =>
+  isString(thread.id) && isString(thread.title) && isNumber(thread.createdAt) && isArray(thread.messages) && thread.messages.every(isMessage);
+
+const isRect = (rect: unknown): boolean =>
+  isObject(rect) && isNumber(rect.x) && isNumber(rect.y) && isNumber(rect.width) && isNumber(rect.height);
+
+const isAnnotation = (annotation: Record<string, unknown>): boolean =>
+  isString(annotation.id) && Number.isInteger(annotation.page) && isString(annotation.text) &&
+  HIGHLIGHT_COLORS.includes(annotation.color as HighlightColor) && isArray(annotation.rects) && annotation.rects.every(isRect) &&
+  (annotation.note === undefined || isString(annotation.note)) && isNumber(annotation.createdAt);
+
+const isSchedule = (schedule: unknown): boolean =>
+  isObject(schedule) && isNumber(schedule.ease) && isNumber(schedule.interval) && isNumber(schedule.repetitions) &&
+  isNumber(schedule.lapses) && isNumber(schedule.due);
+
+const isFlashcard = (card: Record<string, unknown>): boolean =>
+  isString(card.id) && isString(card.front) && isString(card.back) && isNumber(card.createdAt) && isSchedule(card.schedule) &&
+  (card.note === undefined || isString(card.note)) && (card.axiomTerm === undefined || isString(card.axiomTerm));
+
+const isReviewLog = (log: Record<string, unknown>): boolean =>
+  isString(log.cardId) && REVIEW_GRADES.includes(log.grade as ReviewGrade) && isNumber(log.reviewedAt) && isNumber(log.interval);
+
+const readWork = (work: unknown, index: number): BundledWork => {
+  const path = `works[${index}]`;
+  if (!isObject(work) || !isObject(work.file) || !isString(work.file.name) || !isString(work.file.sha256)) {
+    throw new InvalidBundleError(`${path}.file is missing`);
+  }
+  const { file } = work;
+  if (!isArray(work.threads)) throw new InvalidBundleError(`${path}.threads must be an array`);
+  if (!Number.isInteger(work.work) || (work.work as number) < 1) throw new InvalidBundleError(`${path}.work must be a positive integer`);
+  return {
+    file: {
+      name: file.name as string,
+      sha256: file.sha256 as string,
+      size: isNumber(file.size) ? file.size : 0,
+      ...(isString(file.base64) ? { base64: file.base64 } : {})
+    },
+    work: work.work as number,
+    name: isString(work.name) ? work.name : file.name as string,
+    createdAt: isNumber(work.createdAt) ? work.createdAt : Date.now(),
+    state: readState(work.state, `${path}.state`),
+    threads: readList<ChatThread>(work.threads, `${path}.threads`, isThread),
+    activeThreadId: isString(work.activeThreadId) ? work.activeThreadId : null,
+    annotations: readList<Annotation>(work.annotations, `${path}.annotations`, isAnnotation),
+    // حزم الإصدار الأول المصدَّرة قبل البطاقات لا تحملها
+    flashcards: readList<Flashcard>(work.flashcards, `${path}.flashcards`, isFlashcard),
+    reviewLog: readList<ReviewLog>(work.reviewLog, `${path}.reviewLog`, isReviewLog)
+  };
+};
+
+/**
+ * Parses a `.sanctuary.json` file, migrating older versions to the current
+ * shape. Bundles from a newer version of the app are refused.
+ */
+export const parseSanctuaryBundle = (text: string): SanctuaryBundle => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (error) {
+    throw new InvalidBundleError("BUNDLE_NOT_JSON", { cause: error });
+  }
+  if (!isObject(data) || data.format !== BUNDLE_FORMAT || !isNumber(data.version)) {
+    throw new InvalidBundleError("NOT_A_SANCTUARY_BUNDLE");
+  }
+  if (data.version > BUNDLE_VERSION) throw new InvalidBundleError(`BUNDLE_VERSION_TOO_NEW: ${data.version}`);
+  const bundle = migrateBundle({ ...data, version: data.version });
+  if (!isArray(bundle.works) || bundle.works.length === 0) throw new InvalidBundleError("BUNDLE_HAS_NO_WORKS");
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exportedAt: isNumber(bundle.exportedAt) ? bundle.exportedAt : Date.now(),
+    works: bundle.works.map(readWork)
+  };
+};
+
+/**
+ * Writes the bundle's works into the library as new sanctuaries and returns
+ * the id of the primary one. Works exported by reference take their bytes
+ * from `pdfs`, matched by digest rather than by file name.
+ */
+export const importSanctuaryBundle = async (bundle: SanctuaryBundle, pdfs: PDFData[] = []): Promise<string> => {
+  const digests = await Promise.all(pdfs.map(pdf => sha256(pdf.base64)));
+  const files = bundle.works.map(work => {
+    if (work.file.base64) return { name: work.file.name, base64: work.file.base64 };
+    const match = pdfs[digests.indexOf(work.file.sha256)];
+    if (!match) throw new MissingManuscriptError(`MISSING_MANUSCRIPT: ${work.file.name}`);
+    return match;
+  });
+
+  // معرّفات جديدة دائماً، حتى لا يطغى استيراد الحزمة مرتين على محراب قائم
+  const ids = bundle.works.map(() => createLibraryId());
+  const now = Date.now();
+  const items = bundle.works.map((work, i) => {
+    const threadIds = new Map(work.threads.map(thread => [thread.id, createLibraryId()]));
+    const entry: LibraryEntry = {
+      ...work.state,
+      id: ids[i],
+      name: work.name,
+      createdAt: work.createdAt,
+      updatedAt: now,
+      threads: work.threads.map(thread => ({ ...thread, id: threadIds.get(thread.id)! })),
+      activeThreadId: (work.activeThreadId && threadIds.get(work.activeThreadId)) || null,
+      annotations: work.annotations,
+      flashcards: work.flashcards,
+      reviewLog: work.reviewLog,
+      ...(i === 0 && ids.length > 1 ? { companions: bundle.works.slice(1).map((companion, j) => ({ id: ids[j + 1], work: companion.work })) } : {})
+    };
+    return { entry, pdf: files[i] };
+  });
+  // معاملة واحدة: فشل أي عمل لا يترك في المكتبة محراباً ناقص المرافقات
+  await saveLibraryEntries(items);
+  return ids[0];
+};
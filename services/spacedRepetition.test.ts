@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import { CardSchedule } from "../types";
+import { createSchedule, endOfDay, isDueToday, scheduleReview, syncAxiomCards } from "./spacedRepetition";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2026, 0, 15, 9, 0).getTime();
+
+const reviewed = (interval: number, repetitions: number, ease: number = 2.5): CardSchedule =>
+  ({ ease, interval, repetitions, lapses: 0, due: NOW });
+
+describe("scheduleReview", () => {
+  it("grows the interval 1 day, 6 days, then by the ease factor", () => {
+    const first = scheduleReview(createSchedule(NOW), "good", NOW);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, due: NOW + DAY_MS });
+    const second = scheduleReview(first, "good", first.due);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    const third = scheduleReview(second, "good", second.due);
+    expect(third.interval).toBe(Math.round(6 * third.ease));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it("keeps the ease for good, lowers it for hard and raises it for easy", () => {
+    expect(scheduleReview(reviewed(10, 3), "good", NOW).ease).toBeCloseTo(2.5);
+    expect(scheduleReview(reviewed(10, 3), "hard", NOW).ease).toBeCloseTo(2.36);
+    expect(scheduleReview(reviewed(10, 3), "easy", NOW).ease).toBeCloseTo(2.6);
+  });
+
+  it("grows hard intervals slowly and adds a bonus to easy ones", () => {
+    expect(scheduleReview(reviewed(10, 3), "hard", NOW).interval).toBe(12);
+    expect(scheduleReview(reviewed(10, 3), "easy", NOW).interval).toBe(Math.round(Math.round(10 * 2.6) * 1.3));
+    expect(scheduleReview(createSchedule(NOW), "easy", NOW).interval).toBe(4);
+  });
+
+  it("restarts a forgotten card and brings it back minutes later, the same day", () => {
+    const schedule = scheduleReview(reviewed(20, 4), "again", NOW);
+    expect(schedule).toMatchObject({ interval: 0, repetitions: 0, lapses: 1 });
+    expect(schedule.due).toBeGreaterThan(NOW);
+    expect(schedule.due - NOW).toBeLessThan(60 * 60 * 1000);
+    expect(schedule.due).toBeLessThanOrEqual(endOfDay(NOW));
+  });
+
+  it("does not count a lapse for a card that was never learned", () => {
+    expect(scheduleReview(createSchedule(NOW), "again", NOW).lapses).toBe(0);
+  });
+
+  it("never lets the ease fall below 1.3", () => {
+    let schedule = reviewed(1, 1, 1.35);
+    for (let i = 0; i < 5; i++) schedule = scheduleReview(schedule, "again", NOW);
+    expect(schedule.ease).toBe(1.3);
+  });
+});
+
+describe("daily queue", () => {
+  it("treats anything due before midnight as due today", () => {
+    const card = { id: "c", front: "f", back: "b", createdAt: NOW, schedule: { ...createSchedule(NOW), due: endOfDay(NOW) } };
+    expect(isDueToday(card, NOW)).toBe(true);
+    expect(isDueToday({ ...card, schedule: { ...card.schedule, due: endOfDay(NOW) + 1 } }, NOW)).toBe(false);
+  });
+
+  it("adds cards only for axioms that have none", () => {
+    const axioms = [
+      { term: "A", definition: "a", significance: "sa", evidence: [] },
+      { term: "B", definition: "b", significance: "sb", evidence: [] }
+    ];
+    let next = 0;
+    const first = syncAxiomCards([], axioms, NOW, () => `id-${next++}`);
+    expect(first.map(card => card.axiomTerm)).toEqual(["A", "B"]);
+    expect(syncAxiomCards(first, axioms, NOW, () => "unused")).toBe(first);
+  });
+});
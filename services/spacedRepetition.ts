@@ -0,0 +1,79 @@
+import { Axiom, CardSchedule, Flashcard, ReviewGrade, ReviewLog } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// البطاقة المنسية تعود في الجلسة نفسها بعد دقائق
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const EASY_BONUS = 1.3;
+const HARD_FACTOR = 1.2;
+const MAX_REVIEW_LOG = 5000;
+
+// درجات الأزرار الأربعة على سلم SM-2 الأصلي (0..5)
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export const createSchedule = (now: number): CardSchedule => ({ ease: INITIAL_EASE, interval: 0, repetitions: 0, lapses: 0, due: now });
+
+/**
+ * Applies one review to a card's schedule, SM-2 style: the ease factor moves
+ * with the grade, a failed card starts over, and a passed card's interval
+ * grows 1 day, 6 days, then by the ease factor. "hard" grows the interval
+ * more slowly and "easy" adds a bonus.
+ */
+export const scheduleReview = (schedule: CardSchedule, grade: ReviewGrade, now: number): CardSchedule => {
+  const distance = 5 - GRADE_QUALITY[grade];
+  const ease = Math.max(MIN_EASE, schedule.ease + 0.1 - distance * (0.08 + distance * 0.02));
+  if (grade === "again") {
+    return { ease, interval: 0, repetitions: 0, lapses: schedule.lapses + (schedule.repetitions > 0 ? 1 : 0), due: now + RELEARN_DELAY_MS };
+  }
+  const repetitions = schedule.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) interval = grade === "easy" ? 4 : 1;
+  else if (repetitions === 2) interval = grade === "hard" ? 3 : 6;
+  else if (grade === "hard") interval = Math.max(schedule.interval + 1, Math.round(schedule.interval * HARD_FACTOR));
+  else interval = Math.max(schedule.interval + 1, Math.round(schedule.interval * ease));
+  if (grade === "easy" && repetitions > 1) interval = Math.round(interval * EASY_BONUS);
+  return { ease, interval, repetitions, lapses: schedule.lapses, due: now + interval * DAY_MS };
+};
+
+// نهاية اليوم المحلي: كل ما يحين قبلها يدخل طابور اليوم
+export const endOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+export const isDueToday = (card: Flashcard, now: number): boolean => card.schedule.due <= endOfDay(now);
+
+export const createFlashcard = (id: string, front: string, back: string, now: number, extra: Pick<Flashcard, "note" | "axiomTerm"> = {}): Flashcard => ({
+  id,
+  front,
+  back,
+  ...extra,
+  createdAt: now,
+  schedule: createSchedule(now)
+});
+
+/**
+ * Adds a card for every axiom that has none yet. Cards already reviewed keep
+ * their schedule, and user-created cards are left untouched.
+ */
+export const syncAxiomCards = (cards: Flashcard[], axioms: Axiom[], now: number, createId: () => string): Flashcard[] => {
+  const covered = new Set(cards.map(card => card.axiomTerm).filter(Boolean));
+  const added = axioms
+    .filter(axiom => !covered.has(axiom.term))
+    .map(axiom => createFlashcard(createId(), axiom.term, axiom.definition, now, { note: axiom.significance, axiomTerm: axiom.term }));
+  return added.length > 0 ? [...cards, ...added] : cards;
+};
+
+/**
+ * عدد البطاقات المستحقة اليوم، بما فيها بطاقات البديهيات التي لم تُنشأ بعد
+ */
+export const countDueToday = ({ axioms, flashcards = [] }: { axioms: Axiom[]; flashcards?: Flashcard[] }, now: number): number => {
+  const covered = new Set(flashcards.map(card => card.axiomTerm).filter(Boolean));
+  return flashcards.filter(card => isDueToday(card, now)).length + axioms.filter(axiom => !covered.has(axiom.term)).length;
+};
+
+export const appendReview = (log: ReviewLog[], entry: ReviewLog): ReviewLog[] => [...log, entry].slice(-MAX_REVIEW_LOG);
@@ -0,0 +1,184 @@
+import React from "react";
+import { renderToStaticMarkup } from "react-dom/server";
+import ReactMarkdown from "react-markdown";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import katexCss from "katex/dist/katex.min.css?inline";
+import { Axiom, ChatThread, Language, ManuscriptMetadata, Message, PassageContext, QuoteCheck } from "../types";
+import { translations } from "../translations";
+
+export type ReportFormat = "markdown" | "html" | "print";
+
+/**
+ * Everything a study report is made from: the manuscript, its axioms and one
+ * dialogue thread.
+ */
+export interface StudyReportInput {
+  name: string;
+  metadata: ManuscriptMetadata;
+  axioms: Axiom[];
+  thread: ChatThread;
+  threadTitle: string;
+  lang: Language;
+}
+
+// أنماط KaTeX من الحزمة نفسها التي ترسم المعادلات، مضمنة في الملف حتى يُقرأ دون اتصال.
+// خطوط woff2 تصل إليها بيانات مضمنة (vite.config.ts)؛ وتُحذف صيغ woff وttf البديلة لأنها روابط لا تعمل خارج التطبيق
+const KATEX_STYLES = katexCss.replace(/,\s*url\([^)]*\)\s*format\("(?:woff|truetype)"\)/g, "");
+const CITATION_PATTERN = /\[(?:W\d+,\s*)?pp?\.\s*\d+(?:\s*[-–]\s*\d+)?\]/g;
+
+const pageLabel = (page: number, work?: number) => `[${work ? `W${work}, ` : ""}p. ${page}]`;
+const passageLabel = (passage: PassageContext) => pageLabel(passage.page, passage.work);
+
+const reportTitle = ({ metadata, name }: StudyReportInput) => metadata.title || name.replace(/\.pdf$/i, "");
+
+const formatDate = (lang: Language) =>
+  new Date().toLocaleDateString(lang === "ar" ? "ar" : "en", { year: "numeric", month: "long", day: "numeric" });
+
+// أزواج سؤال وجواب بالترتيب؛ الأجوبة الفارغة (الفاشلة أو الموقوفة قبل أي نص) تُسقط
+const toExchanges = (messages: Message[]): Array<{ question: Message; answer: Message }> =>
+  messages.flatMap((message, i) => {
+    const answer = messages[i + 1];
+    return message.role === "user" && answer?.role === "model" && answer.content.trim() ? [{ question: message, answer }] : [];
+  });
+
+const escapeTableCell = (text: string) => text.replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+
+const describeQuoteCheck = (check: QuoteCheck, notFound: string) =>
+  check.verified && check.page !== undefined ? `✓ “${check.quote}” ${pageLabel(check.page, check.work)}` : `✗ “${check.quote}” (${notFound})`;
+
+/**
+ * Renders the report as Markdown: metadata, a table of the axioms, then every
+ * question and answer with its citations and checked quotes.
+ */
+export const buildMarkdownReport = (input: StudyReportInput): string => {
+  const t = translations[input.lang].report;
+  const { metadata, axioms, thread } = input;
+  const lines: string[] = [`# ${reportTitle(input)}`, ""];
+  if (metadata.author) lines.push(`**${t.author}:** ${metadata.author}  `);
+  if (metadata.chapters) lines.push(`**${t.chapters}:** ${metadata.chapters}  `);
+  lines.push(`_${t.exportedOn(formatDate(input.lang))}_`, "");
+  if (metadata.summary) lines.push(`> ${metadata.summary.replace(/\n/g, "\n> ")}`, "");
+
+  if (axioms.length > 0) {
+    lines.push(`## ${t.axioms}`, "", `| # | ${t.term} | ${t.definition} | ${t.significance} | ${t.evidence} |`, "|---|---|---|---|---|");
+    axioms.forEach((axiom, i) => {
+      const evidence = (axiom.evidence || []).map(item => `“${item.quote}” ${pageLabel(item.page)}`).join("<br>");
+      lines.push(`| ${i + 1} | ${[axiom.term, axiom.definition, axiom.significance, evidence].map(escapeTableCell).join(" | ")} |`);
+    });
+    lines.push("");
+  }
+
+  lines.push(`## ${t.dialogue}: ${input.threadTitle}`, "");
+  toExchanges(thread.messages).forEach(({ question, answer }, i) => {
+    lines.push(`### ${t.question} ${i + 1}`, "");
+    if (question.passage) lines.push(`> ${t.aboutPassage} ${passageLabel(question.passage)}: “${question.passage.text}”`, "");
+    lines.push(question.content, "", `**${t.answer}**`, "", answer.content, "");
+    if (answer.quotes && answer.quotes.length > 0) {
+      lines.push(`*${t.verifiedQuotes}:*`, "", ...answer.quotes.map(check => `- ${describeQuoteCheck(check, t.notFound)}`), "");
+    }
+  });
+  return lines.join("\n");
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// نفس خط المعالجة في واجهة الحوار: ماركداون مع الرياضيات عبر KaTeX
+const renderMarkdown = (content: string): string =>
+  renderToStaticMarkup(React.createElement(ReactMarkdown, { remarkPlugins: [remarkMath], rehypePlugins: [rehypeKatex] }, content))
+    .replace(CITATION_PATTERN, match => `<span class="cite">${match}</span>`);
+
+const REPORT_STYLES = `
+  @page { margin: 18mm 16mm; }
+  body { font-family: 'Crimson Pro', 'Montserrat Arabic', 'Noto Naskh Arabic', Georgia, Tahoma, serif; color: #1b1b1b; background: #fff; max-width: 820px; margin: 0 auto; padding: 32px 24px; line-height: 1.6; font-size: 16px; }
+  h1 { font-size: 2em; margin: 0 0 .3em; }
+  h2 { margin-top: 2em; border-bottom: 2px solid #a34a28; padding-bottom: .2em; }
+  h3 { margin: 1.6em 0 .4em; color: #a34a28; font-size: 1em; text-transform: uppercase; letter-spacing: .08em; }
+  .meta { color: #555; margin: 0; }
+  .summary { border-inline-start: 3px solid #a34a28; padding-inline-start: 1em; color: #333; font-style: italic; }
+  table { width: 100%; border-collapse: collapse; font-size: .9em; }
+  th, td { border: 1px solid #ddd; padding: 6px 8px; vertical-align: top; text-align: start; }
+  th { background: #f6eee9; }
+  .evidence { color: #555; font-style: italic; }
+  .exchange { break-inside: avoid-page; margin-bottom: 1.5em; }
+  .question { background: #f7f7f7; border-radius: 8px; padding: 8px 14px; }
+  .passage { border-inline-start: 3px solid #d9a58f; padding-inline-start: .8em; color: #555; font-style: italic; }
+  .answer-label { font-weight: 700; margin: .8em 0 .2em; }
+  .cite { color: #a34a28; font-weight: 700; white-space: nowrap; }
+  .quotes { font-size: .85em; color: #444; padding-inline-start: 1.2em; }
+  .quotes .missing { color: #b3261e; }
+  pre, code { font-family: ui-monospace, monospace; font-size: .85em; background: #f3f3f3; border-radius: 4px; }
+  pre { padding: 8px; overflow-x: auto; }
+  @media print {
+    body { padding: 0; max-width: none; font-size: 12pt; }
+    h2 { break-after: avoid-page; }
+    thead { display: table-header-group; }
+    tr { break-inside: avoid-page; }
+  }
+`;
+
+/**
+ * Renders the report as one HTML page that keeps the manuscript's direction
+ * (RTL for Arabic) and typesets math with KaTeX. The `print` variant opens
+ * the browser's print dialog once the fonts are ready.
+ */
+export const buildHtmlReport = (input: StudyReportInput, { print = false }: { print?: boolean } = {}): string => {
+  const t = translations[input.lang].report;
+  const { metadata, axioms, thread, lang } = input;
+  const title = escapeHtml(reportTitle(input));
+  const meta = [
+    metadata.author ? `<p class="meta"><strong>${t.author}:</strong> ${escapeHtml(metadata.author)}</p>` : "",
+    metadata.chapters ? `<p class="meta"><strong>${t.chapters}:</strong> ${escapeHtml(metadata.chapters)}</p>` : "",
+    `<p class="meta"><em>${t.exportedOn(formatDate(lang))}</em></p>`,
+    metadata.summary ? `<p class="summary" dir="auto">${escapeHtml(metadata.summary)}</p>` : ""
+  ].join("");
+
+  const axiomRows = axioms.map((axiom, i) => `
+      <tr>
+        <td>${i + 1}</td>
+        <td dir="auto"><strong>${escapeHtml(axiom.term)}</strong></td>
+        <td dir="auto">${escapeHtml(axiom.definition)}</td>
+        <td dir="auto">${escapeHtml(axiom.significance)}</td>
+        <td dir="auto" class="evidence">${(axiom.evidence || []).map(item => `“${escapeHtml(item.quote)}” <span class="cite">${pageLabel(item.page)}</span>`).join("<br>")}</td>
+      </tr>`).join("");
+  const axiomTable = axioms.length === 0 ? "" : `
+    <h2>${t.axioms}</h2>
+    <table>
+      <thead><tr><th>#</th><th>${t.term}</th><th>${t.definition}</th><th>${t.significance}</th><th>${t.evidence}</th></tr></thead>
+      <tbody>${axiomRows}</tbody>
+    </table>`;
+
+  const exchanges = toExchanges(thread.messages).map(({ question, answer }, i) => `
+    <section class="exchange">
+      <h3>${t.question} ${i + 1}</h3>
+      <div class="question" dir="auto">
+        ${question.passage ? `<p class="passage">${t.aboutPassage} <span class="cite">${passageLabel(question.passage)}</span>: “${escapeHtml(question.passage.text)}”</p>` : ""}
+        ${renderMarkdown(question.content)}
+      </div>
+      <p class="answer-label">${t.answer}</p>
+      <div dir="auto">${renderMarkdown(answer.content)}</div>
+      ${answer.quotes && answer.quotes.length > 0 ? `
+      <p class="answer-label">${t.verifiedQuotes}</p>
+      <ul class="quotes">${answer.quotes.map(check => `<li dir="auto"${check.verified ? "" : ' class="missing"'}>${escapeHtml(describeQuoteCheck(check, t.notFound))}</li>`).join("")}</ul>` : ""}
+    </section>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="${lang}" dir="${lang === "ar" ? "rtl" : "ltr"}">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title}</title>
+  <style>${KATEX_STYLES}</style>
+  <style>${REPORT_STYLES}</style>
+</head>
+<body>
+  <h1 dir="auto">${title}</h1>
+  ${meta}
+  ${axiomTable}
+  <h2 dir="auto">${t.dialogue}: ${escapeHtml(input.threadTitle)}</h2>
+  ${exchanges}
+  ${print ? "<script>window.addEventListener('load', () => document.fonts.ready.then(() => window.print()));</script>" : ""}
+</body>
+</html>`;
+};
@@ -0,0 +1,57 @@
+import { Language } from "../types";
+
+const ARABIC_DIACRITICS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06DC\u06DF-\u06E8\u06EA-\u06ED]/g;
+const TATWEEL = /\u0640/g;
+const TOKEN_SPLITTER = /[^\p{L}\p{N}]+/u;
+const ARABIC_ARTICLE = /^(?:[وفبكل]?ال|لل)/;
+
+/**
+ * توحيد الكتابة العربية: حذف التشكيل والتطويل وتوحيد الألف والياء والتاء المربوطة
+ */
+export const normalizeText = (text: string): string =>
+  text
+    .normalize("NFC")
+    .toLowerCase()
+    .replace(ARABIC_DIACRITICS, "")
+    .replace(TATWEEL, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ى/g, "ي")
+    .replace(/ة/g, "ه")
+    .replace(/[\u0660-\u0669]/g, d => String(d.charCodeAt(0) - 0x0660));
+
+const RAW_STOPWORDS: Record<Language, string[]> = {
+  en: [
+    "a", "an", "and", "are", "as", "at", "be", "been", "but", "by", "can", "did", "do", "does", "for", "from",
+    "had", "has", "have", "he", "her", "his", "how", "i", "if", "in", "into", "is", "it", "its", "me", "my",
+    "not", "of", "on", "or", "our", "she", "so", "than", "that", "the", "their", "them", "then", "there",
+    "these", "they", "this", "those", "to", "was", "we", "were", "what", "when", "where", "which", "who",
+    "whom", "why", "will", "with", "would", "you", "your", "about", "does", "tell", "explain"
+  ],
+  ar: [
+    "في", "من", "على", "الى", "إلى", "عن", "مع", "هذا", "هذه", "ذلك", "تلك", "هو", "هي", "هم", "هن", "انا",
+    "نحن", "انت", "أنت", "كان", "كانت", "يكون", "ما", "ماذا", "لماذا", "كيف", "متى", "أين", "اين", "هل",
+    "لا", "لم", "لن", "قد", "ثم", "أو", "او", "أن", "ان", "إن", "الذي", "التي", "الذين", "كل", "بعض", "غير",
+    "بين", "عند", "حتى", "إذا", "اذا", "لكن", "بل", "و", "ف", "ب", "ل", "ك", "به", "بها", "له", "لها", "فيه",
+    "فيها", "منه", "منها", "عليه", "عليها", "اي", "أي", "يا", "هناك", "هنا", "ذاك"
+  ]
+};
+
+const STOPWORDS = new Set(
+  Object.values(RAW_STOPWORDS).flat().map(normalizeText)
+);
+
+const stripArabicArticle = (token: string): string => {
+  const stripped = token.replace(ARABIC_ARTICLE, "");
+  return stripped.length >= 3 ? stripped : token;
+};
+
+/**
+ * Splits text into normalized index terms. Stopwords of both interface
+ * languages are dropped, since a manuscript's language is independent of `lang`.
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeText(text)
+    .split(TOKEN_SPLITTER)
+    .filter(token => token.length > 0 && !STOPWORDS.has(token))
+    .map(stripArabicArticle)
+    .filter(token => token.length >= 2 && !STOPWORDS.has(token));
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { findMatches, searchPages } from "./textSearch";
+
+const slices = (text: string, query: string) => findMatches(text, query).map(({ start, end }) => text.slice(start, end));
+
+describe("findMatches", () => {
+  it("maps matches back onto the original text across case and whitespace runs", () => {
+    const text = "The  Quick\n\tbrown fox saw a quick brown dog.";
+    expect(findMatches(text, "  quick brown ")).toEqual([{ start: 5, end: 17 }, { start: 28, end: 39 }]);
+    expect(slices(text, "quick brown")).toEqual(["Quick\n\tbrown", "quick brown"]);
+  });
+
+  it("ignores Arabic diacritics and keeps trailing ones inside the match", () => {
+    const text = "قال: العِلْمُ نُورٌ، وطلبُ العلمِ فريضة";
+    expect(slices(text, "العلم")).toEqual(["العِلْمُ", "العلمِ"]);
+    expect(findMatches(text, "العلم")[0]).toEqual({ start: 5, end: 13 });
+  });
+
+  it("folds tatweel and the variant forms of alef, ya and ta marbuta", () => {
+    expect(slices("الإيمـــان بالمدرسة الكبرى", "الايمان")).toEqual(["الإيمـــان"]);
+    expect(slices("المدرسة الكبرى", "المدرسه الكبري")).toEqual(["المدرسة الكبرى"]);
+  });
+
+  it("counts characters outside the basic plane as two code units", () => {
+    const text = "𝑥 marks 𝑥 twice";
+    expect(findMatches(text, "𝑥")).toEqual([{ start: 0, end: 2 }, { start: 9, end: 11 }]);
+  });
+
+  it("finds nothing for an empty query", () => {
+    expect(findMatches("Some text", "   ")).toEqual([]);
+  });
+});
+
+describe("searchPages", () => {
+  const pages = [
+    { page: 1, text: "Knowledge is light. Seek knowledge." },
+    { page: 2, text: "Nothing here." },
+    { page: 3, text: "The lamp of\nknowledge" }
+  ];
+
+  it("reports offsets and ordinals relative to each page", () => {
+    const hits = searchPages(pages, "knowledge");
+    expect(hits.map(({ page, ordinal, match }) => ({ page, ordinal, match }))).toEqual([
+      { page: 1, ordinal: 0, match: "Knowledge" },
+      { page: 1, ordinal: 1, match: "knowledge" },
+      { page: 3, ordinal: 0, match: "knowledge" }
+    ]);
+    expect(hits[2].before).toBe("The lamp of ");
+    expect(findMatches(pages[2].text, "knowledge")).toEqual([{ start: 12, end: 21 }]);
+  });
+
+  it("does not join a phrase across a page break", () => {
+    expect(searchPages(pages, "Seek knowledge. Nothing")).toEqual([]);
+    expect(searchPages(pages, "lamp of knowledge")).toHaveLength(1);
+  });
+});
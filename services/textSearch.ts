@@ -0,0 +1,86 @@
+import { ManuscriptPage } from "../types";
+import { normalizeText } from "./textNormalizer";
+
+const CONTEXT_CHARS = 40;
+const MAX_HITS = 500;
+
+export interface TextMatch {
+  // مواضع في النص الأصلي: بداية المطابقة ونهايتها (غير مشمولة)
+  start: number;
+  end: number;
+}
+
+export interface SearchHit {
+  page: number;
+  // ترتيب المطابقة داخل صفحتها، لربط السطر في القائمة بتظليله على الصفحة
+  ordinal: number;
+  before: string;
+  match: string;
+  after: string;
+}
+
+/**
+ * Folds text the way `normalizeText` does, collapsing whitespace runs to one
+ * space, and records for every folded character the index it came from, so a
+ * match in the folded text maps back onto the original.
+ */
+const foldWithOffsets = (text: string): { folded: string; offsets: number[] } => {
+  let folded = "";
+  const offsets: number[] = [];
+  let index = 0;
+  for (const char of text) {
+    const normalized = /\s/.test(char) ? " " : normalizeText(char);
+    for (const out of normalized) {
+      // حذف التشكيل يعطي سلسلة فارغة؛ والفراغات المتتالية تُطوى في فراغ واحد
+      if (out === " " && folded.endsWith(" ")) continue;
+      folded += out;
+      // موضع لكل وحدة UTF-16، لأن indexOf يعدّ الحروف خارج المستوى الأساسي وحدتين
+      for (let unit = 0; unit < out.length; unit++) offsets.push(index);
+    }
+    index += char.length;
+  }
+  return { folded, offsets };
+};
+
+const foldQuery = (query: string): string => foldWithOffsets(query.trim()).folded;
+
+/**
+ * يجد كل مواضع العبارة في النص متجاهلاً التشكيل والتطويل واختلاف صور الألف والياء والمسافات
+ */
+export const findMatches = (text: string, query: string): TextMatch[] => {
+  const needle = foldQuery(query);
+  if (!needle) return [];
+  const { folded, offsets } = foldWithOffsets(text);
+  const matches: TextMatch[] = [];
+  for (let at = folded.indexOf(needle); at >= 0; at = folded.indexOf(needle, at + needle.length)) {
+    const last = offsets[at + needle.length - 1];
+    let end = last + (text.codePointAt(last)! > 0xffff ? 2 : 1);
+    // التشكيل اللاحق بآخر حرف جزء من المطابقة
+    while (end < text.length && !/\s/.test(text[end]) && normalizeText(text[end]) === "") end++;
+    matches.push({ start: offsets[at], end });
+  }
+  return matches;
+};
+
+/**
+ * Searches every page and returns the hits in reading order, each with a
+ * little surrounding text for the result list.
+ */
+export const searchPages = (pages: ManuscriptPage[], query: string): SearchHit[] => {
+  const hits: SearchHit[] = [];
+  for (const { page, text } of pages) {
+    const matches = findMatches(text, query);
+    for (let ordinal = 0; ordinal < matches.length && hits.length < MAX_HITS; ordinal++) {
+      const { start, end } = matches[ordinal];
+      hits.push({
+        page,
+        ordinal,
+        before: text.slice(Math.max(0, start - CONTEXT_CHARS), start).replace(/\s+/g, " ").trimStart(),
+        match: text.slice(start, end),
+        after: text.slice(end, end + CONTEXT_CHARS).replace(/\s+/g, " ").trimEnd()
+      });
+    }
+    if (hits.length >= MAX_HITS) break;
+  }
+  return hits;
+};
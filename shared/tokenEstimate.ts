@@ -0,0 +1,16 @@
+/**
+ * تقدير عدد الرموز دون مُرمِّز فعلي: الحروف العربية تُقسَّم إلى رموز أكثر من اللاتينية.
+ * يشترك فيه المتصفح (ميزانية السياق) والخادم (حدود المعدل)
+ */
+export const estimateTokens = (text: string): number => {
+  let latin = 0;
+  let arabic = 0;
+  let other = 0;
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code < 0x0250) latin++;
+    else if (code >= 0x0600 && code <= 0x06ff) arabic++;
+    else other++;
+  }
+  return Math.ceil(latin / 4 + arabic / 2.5 + other);
+};
@@ -1,6 +1,8 @@
  
      
 
+import { ErrorAction, ErrorCode, ExtractionProgress } from './types';
+
 export const translations = {
   en: {
     title: "KNOWLEDGE AI",
@@ -22,6 +24,147 @@ export const translations = {
     helpText: "Upload a PDF manuscript to begin. The system will extract core axioms, which you can then explore through a deep neural dialogue.",
     placeholder: "Interrogate the author's logic...",
     deepChatBtn: "Deep Knowledge Chat",
+    library: "Library",
+    searchLibrary: "Search sanctuaries...",
+    emptyLibrary: "No saved sanctuaries yet.",
+    deleteSanctuary: "Delete sanctuary",
+    exportSanctuary: "Export sanctuary",
+    importSanctuary: "Import a sanctuary",
+    includePdfInExport: "Include the PDF in exports",
+    newThread: "New thread",
+    renameThread: "Rename thread",
+    deleteThread: "Delete thread",
+    threadTitle: (n: number) => `Inquiry ${n}`,
+    stop: "Stop",
+    stopped: "Response stopped",
+    regenerate: "Regenerate",
+    editMessage: "Edit and branch",
+    branchFromHere: "Branch from here",
+    cancel: "Cancel",
+    branchTitle: (title: string) => `${title} · branch`,
+    addManuscript: "Add manuscript",
+    uploadCompanion: "Upload a new PDF",
+    fromLibrary: "From the library",
+    removeManuscript: "Remove from sanctuary",
+    compareWorks: "Compare the works",
+    comparePrompt: "Compare the works of this sanctuary: set their core axioms against each other.",
+    progressStage: (event: ExtractionProgress | null) => {
+      if (!event) return "Opening manuscript...";
+      switch (event.stage) {
+        case 'parsing': return `Reading pages ${event.done} / ${event.total}`;
+        case 'chunking': return `${event.chunks} passages indexed`;
+        case 'analyzing': return `Analysing sections ${event.done} / ${event.total}`;
+        case 'merging': return "Merging and ranking axioms...";
+        case 'relating': return "Mapping relations between axioms...";
+      }
+    },
+    queueStatus: (queued: number, seconds: number) =>
+      `${queued > 0 ? `${queued} request${queued === 1 ? '' : 's'} queued` : 'Rate limit reached'}${seconds > 0 ? ` · next in ${seconds}s` : ''}`,
+    errors: {
+      missing_key: "The server has no model API key configured.",
+      invalid_key: "The model provider rejected the server's API key.",
+      rate_limit: "The model is receiving too many requests right now.",
+      network: "The sanctuary could not reach the server.",
+      context_overflow: "This request is too large for the model's context window.",
+      invalid_pdf: "This PDF could not be read: it is damaged, protected, or has no text layer.",
+      parse_failure: "The model's reply could not be understood.",
+      storage: "The local library could not be read or written.",
+      invalid_bundle: "This sanctuary file could not be imported: it is damaged or was made by a newer version.",
+      missing_manuscript: "This sanctuary file refers to a PDF that was not selected with it.",
+      unknown: "Something went wrong."
+    } as Record<ErrorCode, string>,
+    errorActions: {
+      retry: "Try again.",
+      wait: "Wait a minute, then try again.",
+      smaller_file: "Choose a smaller file or start a new thread.",
+      other_file: "Choose another PDF, ideally one with selectable text.",
+      configure_key: "Set GROQ_API_KEY in the server environment and restart it.",
+      replace_key: "Check GROQ_API_KEY in the server environment, replace it if it was revoked, and restart the server.",
+      select_manuscript: "Import again, selecting the sanctuary file together with its PDF."
+    } as Record<ErrorAction, string>,
+    retry: "Try again",
+    quoteChecks: "Quotes checked against the source",
+    quoteNotFound: "Not found in source",
+    highlightColor: "Highlight",
+    addNote: "Add note",
+    notePlaceholder: "Write a margin note...",
+    saveNote: "Save",
+    removeAnnotation: "Remove highlight",
+    askAboutThis: "Ask about this",
+    askingAbout: (label: string) => `Asking about the passage at ${label}`,
+    clearPassage: "Clear passage",
+    passageQuestion: "Explain this passage.",
+    searchManuscript: "Search the manuscript",
+    searchPlaceholder: "Search words or a phrase...",
+    searching: "Searching...",
+    searchCount: (active: number, total: number) => total === 0 ? "No matches" : `${active} / ${total}`,
+    previousMatch: "Previous match",
+    nextMatch: "Next match",
+    exportDialogue: "Export",
+    exportMarkdown: "Markdown (.md)",
+    exportHtml: "HTML page (.html)",
+    printReport: "Print report",
+    studyFlashcards: "Study Flashcards",
+    dueToday: "Due Today",
+    dueCount: (count: number) => `${count} due`,
+    showAnswer: "Show Answer",
+    reviewGrades: { again: "Again", hard: "Hard", good: "Good", easy: "Easy" },
+    sessionProgress: (reviewed: number, left: number) => `${reviewed} reviewed · ${left} left`,
+    addCard: "Add Card",
+    cardFront: "Question or term",
+    cardBack: "Answer",
+    saveCard: "Save Card",
+    allCaughtUp: "All caught up for today",
+    nextReview: (date: string) => `Next review: ${date}`,
+    noCards: "No cards yet",
+    takeQuiz: "Take a Quiz",
+    quizScope: "Range",
+    wholeManuscript: "Whole manuscript",
+    customRange: "Page range…",
+    pageFrom: "From page",
+    pageTo: "to",
+    quizSize: "Questions",
+    generateQuiz: "Generate Quiz",
+    newQuiz: "New Quiz",
+    generatingQuiz: "Writing questions from the text…",
+    rangeWithoutText: "No readable text in this range",
+    multipleChoice: "Multiple choice",
+    shortAnswer: "Short answer",
+    answerPlaceholder: "Answer in your own words…",
+    checkAnswer: "Check Answer",
+    grading: "Grading…",
+    verdicts: { correct: "Correct", partial: "Partly correct", incorrect: "Incorrect" },
+    quizScore: (correct: number, partial: number, total: number) =>
+      `${correct} / ${total} correct${partial > 0 ? ` · ${partial} partly` : ""}`,
+    sourceUnverified: "This quote was not found in the text; the link opens the passage's first page.",
+    showPassage: "Show source passage",
+    hidePassage: "Hide source passage",
+    axiomCards: "Cards",
+    axiomGraph: "Map",
+    relationTypes: { depends_on: "depends on", contradicts: "contradicts", exemplifies: "exemplifies", leads_to: "leads to" },
+    noRelations: "No relations have been mapped between these axioms yet.",
+    noRelationsFound: "No relations between these axioms were found in the text.",
+    mapRelations: "Map Relations",
+    mappingRelations: "Mapping relations…",
+    relationEvidence: "Supporting passages",
+    graphHint: "Click an axiom to open its card, or a link to see the passage behind it.",
+    report: {
+      author: "Author",
+      chapters: "Chapters",
+      summary: "Summary",
+      axioms: "Knowledge Axioms",
+      term: "Term",
+      definition: "Definition",
+      significance: "Significance",
+      evidence: "Evidence",
+      dialogue: "Dialogue",
+      question: "Question",
+      answer: "Answer",
+      aboutPassage: "About the passage",
+      verifiedQuotes: "Quotes checked against the source",
+      notFound: "not found in source",
+      exportedOn: (date: string) => `Exported on ${date}`
+    },
     extractionPrompt: (lang: string) => `Extract 6 core 'Knowledge Axioms' from this manuscript. The entire response must be in Arabic. Each axiom should include a profound term, a scholarly definition, and its overarching significance.`
   },
   ar: {
@@ -44,6 +187,147 @@ export const translations = {
     helpText: "قم برفع المخطوط بصيغة PDF للبدء. سيقوم النظام باستخراج البديهيات الأساسية، والتي يمكنك استكشافها بعمق من خلال حوار معرفي.",
     placeholder: "استجوب منطق المؤلف وعمقه...",
     deepChatBtn: "الغوص في الحوار المعرفي",
+    library: "المكتبة",
+    searchLibrary: "ابحث في المحاريب...",
+    emptyLibrary: "لا توجد محاريب محفوظة بعد.",
+    deleteSanctuary: "حذف المحراب",
+    exportSanctuary: "تصدير المحراب",
+    importSanctuary: "استيراد محراب",
+    includePdfInExport: "تضمين ملف PDF عند التصدير",
+    newThread: "مبحث جديد",
+    renameThread: "إعادة تسمية المبحث",
+    deleteThread: "حذف المبحث",
+    threadTitle: (n: number) => `مبحث ${n}`,
+    stop: "إيقاف",
+    stopped: "تم إيقاف الجواب",
+    regenerate: "إعادة التوليد",
+    editMessage: "تعديل وتفريع",
+    branchFromHere: "تفريع من هنا",
+    cancel: "إلغاء",
+    branchTitle: (title: string) => `${title} · فرع`,
+    addManuscript: "إضافة مخطوط",
+    uploadCompanion: "رفع ملف PDF جديد",
+    fromLibrary: "من المكتبة",
+    removeManuscript: "إزالة من المحراب",
+    compareWorks: "مقارنة الأعمال",
+    comparePrompt: "قارن بين أعمال هذا المحراب: ضع بديهياتها الأساسية في مواجهة بعضها البعض.",
+    progressStage: (event: ExtractionProgress | null) => {
+      if (!event) return "يتم فتح المخطوط...";
+      switch (event.stage) {
+        case 'parsing': return `قراءة الصفحات ${event.done} / ${event.total}`;
+        case 'chunking': return `تمت فهرسة ${event.chunks} مقطعاً`;
+        case 'analyzing': return `تحليل الأقسام ${event.done} / ${event.total}`;
+        case 'merging': return "دمج البديهيات وترتيبها...";
+        case 'relating': return "رسم العلاقات بين البديهيات...";
+      }
+    },
+    queueStatus: (queued: number, seconds: number) =>
+      `${queued > 0 ? `${queued} طلبات في الانتظار` : 'تم بلوغ حد الطلبات'}${seconds > 0 ? ` · التالي خلال ${seconds} ث` : ''}`,
+    errors: {
+      missing_key: "لم يُضبط مفتاح واجهة النموذج على الخادم.",
+      invalid_key: "رفض مزود النموذج مفتاح الواجهة المضبوط على الخادم.",
+      rate_limit: "النموذج يتلقى طلبات كثيرة في هذه اللحظة.",
+      network: "تعذر على المحراب الوصول إلى الخادم.",
+      context_overflow: "هذا الطلب أكبر من نافذة سياق النموذج.",
+      invalid_pdf: "تعذرت قراءة ملف PDF: إما تالف أو محمي أو بلا طبقة نصية.",
+      parse_failure: "تعذر فهم رد النموذج.",
+      storage: "تعذرت القراءة من المكتبة المحلية أو الكتابة فيها.",
+      invalid_bundle: "تعذر استيراد ملف المحراب: فهو تالف أو صادر عن إصدار أحدث.",
+      missing_manuscript: "يشير ملف المحراب إلى مخطوط PDF لم يُختر معه.",
+      unknown: "حدث خطأ غير متوقع."
+    } as Record<ErrorCode, string>,
+    errorActions: {
+      retry: "أعد المحاولة.",
+      wait: "انتظر دقيقة ثم أعد المحاولة.",
+      smaller_file: "اختر ملفاً أصغر أو ابدأ مبحثاً جديداً.",
+      other_file: "اختر ملف PDF آخر، ويفضل أن يكون نصه قابلاً للتحديد.",
+      configure_key: "اضبط GROQ_API_KEY في بيئة الخادم ثم أعد تشغيله.",
+      replace_key: "تحقق من GROQ_API_KEY في بيئة الخادم، واستبدله إن أُلغي، ثم أعد تشغيل الخادم.",
+      select_manuscript: "أعد الاستيراد مع اختيار ملف المحراب وملف PDF الخاص به معاً."
+    } as Record<ErrorAction, string>,
+    retry: "إعادة المحاولة",
+    quoteChecks: "الاقتباسات بعد مطابقتها مع المصدر",
+    quoteNotFound: "غير موجود في المصدر",
+    highlightColor: "تظليل",
+    addNote: "إضافة حاشية",
+    notePlaceholder: "اكتب حاشية...",
+    saveNote: "حفظ",
+    removeAnnotation: "إزالة التظليل",
+    askAboutThis: "اسأل عن هذا",
+    askingAbout: (label: string) => `سؤال عن المقطع في ${label}`,
+    clearPassage: "إلغاء المقطع",
+    passageQuestion: "اشرح هذا المقطع.",
+    searchManuscript: "البحث في المخطوط",
+    searchPlaceholder: "ابحث عن كلمة أو عبارة...",
+    searching: "جارٍ البحث...",
+    searchCount: (active: number, total: number) => total === 0 ? "لا نتائج" : `${active} / ${total}`,
+    previousMatch: "النتيجة السابقة",
+    nextMatch: "النتيجة التالية",
+    exportDialogue: "تصدير",
+    exportMarkdown: "ماركداون (.md)",
+    exportHtml: "صفحة HTML (.html)",
+    printReport: "طباعة التقرير",
+    studyFlashcards: "مراجعة البطاقات",
+    dueToday: "مراجعة اليوم",
+    dueCount: (count: number) => `${count} مستحقة`,
+    showAnswer: "أظهر الجواب",
+    reviewGrades: { again: "مجدداً", hard: "صعبة", good: "جيدة", easy: "سهلة" },
+    sessionProgress: (reviewed: number, left: number) => `روجعت ${reviewed} · بقيت ${left}`,
+    addCard: "أضف بطاقة",
+    cardFront: "سؤال أو مصطلح",
+    cardBack: "الجواب",
+    saveCard: "احفظ البطاقة",
+    allCaughtUp: "أنهيت مراجعة اليوم",
+    nextReview: (date: string) => `المراجعة التالية: ${date}`,
+    noCards: "لا بطاقات بعد",
+    takeQuiz: "اختبر فهمك",
+    quizScope: "النطاق",
+    wholeManuscript: "المخطوط كاملاً",
+    customRange: "نطاق صفحات…",
+    pageFrom: "من الصفحة",
+    pageTo: "إلى",
+    quizSize: "الأسئلة",
+    generateQuiz: "أنشئ الاختبار",
+    newQuiz: "اختبار جديد",
+    generatingQuiz: "تُصاغ الأسئلة من النص…",
+    rangeWithoutText: "لا نص مقروءاً في هذا النطاق",
+    multipleChoice: "اختيار من متعدد",
+    shortAnswer: "إجابة قصيرة",
+    answerPlaceholder: "أجب بكلماتك…",
+    checkAnswer: "صحّح الإجابة",
+    grading: "جارٍ التصحيح…",
+    verdicts: { correct: "صحيحة", partial: "صحيحة جزئياً", incorrect: "خاطئة" },
+    quizScore: (correct: number, partial: number, total: number) =>
+      `${correct} / ${total} صحيحة${partial > 0 ? ` · ${partial} جزئياً` : ""}`,
+    sourceUnverified: "لم يُعثر على هذا الاقتباس في النص؛ الرابط يفتح أول صفحات المقطع.",
+    showPassage: "أظهر المقطع المصدر",
+    hidePassage: "أخفِ المقطع المصدر",
+    axiomCards: "البطاقات",
+    axiomGraph: "الخريطة",
+    relationTypes: { depends_on: "تقوم على", contradicts: "تناقض", exemplifies: "مثال على", leads_to: "تؤدي إلى" },
+    noRelations: "لم تُرسم بعد علاقات بين هذه البديهيات.",
+    noRelationsFound: "لم يُعثر في النص على علاقات بين هذه البديهيات.",
+    mapRelations: "ارسم العلاقات",
+    mappingRelations: "جارٍ رسم العلاقات…",
+    relationEvidence: "المقاطع المؤيدة",
+    graphHint: "انقر بديهية لفتح بطاقتها، أو رابطاً لرؤية المقطع الذي يسنده.",
+    report: {
+      author: "المؤلف",
+      chapters: "الفصول",
+      summary: "الخلاصة",
+      axioms: "بديهيات المعرفة",
+      term: "المصطلح",
+      definition: "التعريف",
+      significance: "الأهمية",
+      evidence: "الشواهد",
+      dialogue: "الحوار",
+      question: "السؤال",
+      answer: "الجواب",
+      aboutPassage: "عن المقطع",
+      verifiedQuotes: "الاقتباسات بعد مطابقتها بالمصدر",
+      notFound: "غير موجود في المصدر",
+      exportedOn: (date: string) => `صُدِّر في ${date}`
+    },
     extractionPrompt: (lang: string) => `استخرج 6 'بديهيات معرفية' أساسية من هذه المخطوطة. يجب أن تكون الاستجابة كاملة باللغة العربية. يجب أن تتضمن كل بديهية مصطلحاً عميقاً، تعريفاً أكاديمياً، وأهميتها الشاملة.`
   }
 };
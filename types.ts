@@ -5,14 +5,256 @@ export interface Axiom {
   term: string;
   definition: string;
   significance: string;
+  // مقاطع حرفية من المخطوط تسند البديهية، بعد التحقق من وجودها في النص
+  evidence?: AxiomEvidence[];
+}
+
+export interface AxiomEvidence {
+  quote: string;
+  page: number;
+}
+
+export type AxiomRelationType = 'depends_on' | 'contradicts' | 'exemplifies' | 'leads_to';
+
+/**
+ * A typed link between two axioms, read as "`from` depends on / contradicts /
+ * exemplifies / leads to `to`". Both ends are indices into the axiom list.
+ */
+export interface AxiomRelation {
+  from: number;
+  to: number;
+  type: AxiomRelationType;
+  explanation: string;
+  // مقاطع حرفية تسند العلاقة، بعد التحقق من وجودها في النص
+  evidence: AxiomEvidence[];
 }
 
 export interface Message {
   role: 'user' | 'model';
   content: string;
+  stopped?: boolean;
+  mode?: ChatMode;
+  // رمز الخطأ حين يفشل الجواب، ليُعرض بلغة الواجهة الحالية
+  error?: ErrorCode;
+  quotes?: QuoteCheck[];
+  // المقطع الذي حدده القارئ في العارض وسأل عنه
+  passage?: PassageContext;
+}
+
+/**
+ * A passage selected in the viewer and sent to the dialogue as explicit context.
+ */
+export interface PassageContext {
+  text: string;
+  page: number;
+  work?: number;
+}
+
+/**
+ * Result of checking one quoted passage of an answer against the source text.
+ */
+export interface QuoteCheck {
+  quote: string;
+  verified: boolean;
+  page?: number;
+  work?: number;
 }
 
 export interface PDFData {
   base64: string;
   name: string;
 }
+
+export interface ManuscriptPage {
+  page: number;
+  text: string;
+}
+
+export interface DocumentChunk {
+  text: string;
+  startPage: number;
+  endPage: number;
+  // رقم العمل داخل المحراب (1 للمخطوط الأساسي) عند وجود أكثر من مخطوط
+  work?: number;
+}
+
+export type HighlightColor = 'amber' | 'emerald' | 'sky' | 'rose';
+
+// مستطيل نسبي من أبعاد الصفحة (0..1) حتى يبقى التظليل في مكانه مع أي تكبير
+export interface AnnotationRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Annotation {
+  id: string;
+  page: number;
+  text: string;
+  color: HighlightColor;
+  rects: AnnotationRect[];
+  note?: string;
+  createdAt: number;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * SM-2 state of one flashcard. `interval` is in days; `due` is a timestamp.
+ */
+export interface CardSchedule {
+  ease: number;
+  interval: number;
+  repetitions: number;
+  lapses: number;
+  due: number;
+}
+
+export interface Flashcard {
+  id: string;
+  front: string;
+  back: string;
+  // سطر إضافي تحت الجواب، مثل أهمية البديهية
+  note?: string;
+  // مصطلح البديهية التي وُلدت منها البطاقة؛ غيابه يعني بطاقة أنشأها القارئ
+  axiomTerm?: string;
+  createdAt: number;
+  schedule: CardSchedule;
+}
+
+export interface ReviewLog {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: number;
+  interval: number;
+}
+
+export interface ManuscriptMetadata {
+  title?: string;
+  author?: string;
+  chapters?: string;
+  summary?: string;
+}
+
+/**
+ * Everything the service layer derives from a manuscript, enough to resume a
+ * sanctuary without running extraction again.
+ */
+export interface ManuscriptState {
+  pages: ManuscriptPage[];
+  chunks: DocumentChunk[];
+  axioms: Axiom[];
+  metadata: ManuscriptMetadata;
+  snippets: string[];
+  // غائبة في المحاريب المحفوظة قبل استخراج العلاقات
+  relations?: AxiomRelation[];
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  createdAt: number;
+  messages: Message[];
+}
+
+/**
+ * A companion work attached to a sanctuary. `work` is its label in citations
+ * (`W2`, `W3`...); it stays fixed while the work is attached, so removing
+ * another companion never renumbers it.
+ */
+export interface CompanionRef {
+  id: string;
+  work: number;
+}
+
+export interface CompanionManuscript extends CompanionRef {
+  name: string;
+  state: ManuscriptState;
+}
+
+export type ChatMode = 'dialogue' | 'compare';
+
+// نطاق صفحات مغلق من الطرفين
+export interface PageRange {
+  from: number;
+  to: number;
+}
+
+// مدخل من فهرس الـ PDF الداخلي (outline) بعنوانه وصفحة بدايته
+export interface OutlineEntry {
+  title: string;
+  page: number;
+}
+
+export type QuizQuestionKind = 'multiple_choice' | 'short_answer';
+
+/**
+ * The passage a quiz question was written from. `quote` is the sentence that
+ * answers it; `verified` is false when the quote was not found in the text,
+ * and `page` then falls back to the passage's first page.
+ */
+export interface QuizSource {
+  passage: string;
+  quote: string;
+  page: number;
+  verified: boolean;
+}
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  question: string;
+  // للاختيار من متعدد فقط
+  choices?: string[];
+  answerIndex?: number;
+  // الجواب المرجعي، أو شرح الخيار الصحيح
+  answer: string;
+  source: QuizSource;
+}
+
+export type QuizVerdict = 'correct' | 'partial' | 'incorrect';
+
+export interface QuizGrade {
+  verdict: QuizVerdict;
+  feedback: string;
+}
+
+export type ErrorCode =
+  | 'missing_key'
+  | 'invalid_key'
+  | 'rate_limit'
+  | 'network'
+  | 'context_overflow'
+  | 'invalid_pdf'
+  | 'parse_failure'
+  | 'storage'
+  | 'invalid_bundle'
+  | 'missing_manuscript'
+  | 'unknown';
+
+// ما يُقترح على القارئ فعله حيال الخطأ
+export type ErrorAction = 'retry' | 'wait' | 'smaller_file' | 'other_file' | 'configure_key' | 'replace_key' | 'select_manuscript';
+
+// مراحل استخراج البديهيات كما تحدث فعلاً، لعرض تقدم حقيقي أثناء التوليف
+export type ExtractionProgress =
+  | { stage: 'parsing'; done: number; total: number }
+  | { stage: 'chunking'; chunks: number }
+  | { stage: 'analyzing'; done: number; total: number }
+  | { stage: 'merging' }
+  | { stage: 'relating' };
+
+export type ProgressHandler = (event: ExtractionProgress) => void;
+
+export interface LibraryEntry extends ManuscriptState {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  companions?: CompanionRef[];
+  annotations?: Annotation[];
+  flashcards?: Flashcard[];
+  reviewLog?: ReviewLog[];
+}
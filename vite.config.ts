@@ -8,12 +8,23 @@ export default defineConfig(({ mode }) => {
   return {
     plugins: [react()],
     define: {
-      // تمرير API_KEY فقط بدلاً من كامل process.env لتجنب أخطاء البناء
-      'process.env.GROQ_API_KEY': JSON.stringify(env.GROQ_API_KEY)
+      // لا يُمرَّر هنا أي مفتاح (GROQ_API_KEY وغيره): كل ما يُعرَّف هنا يُضمَّن في الحزمة العامة، والمفاتيح تبقى على الخادم (server/index.ts)
+      'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL || ''),
+      // اختيار مزود النموذج: الخادم (افتراضي) أو openai-compatible لخادم محلي مثل Ollama
+      'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER || ''),
+      'process.env.LLM_BASE_URL': JSON.stringify(env.LLM_BASE_URL || ''),
+      'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL || '')
+    },
+    server: {
+      proxy: {
+        '/api': `http://localhost:${env.PORT || 8787}`
+      }
     },
     build: {
       outDir: 'dist',
-      sourcemap: false
+      sourcemap: false,
+      // خطوط KaTeX بصيغة woff2 تُضمَّن بيانات في أنماط التقرير المصدَّر، فيعرض المعادلات دون اتصال
+      assetsInlineLimit: (filePath: string) => /KaTeX_[\w-]+\.woff2$/.test(filePath) || undefined
     }
   };
 });